@@ -0,0 +1,110 @@
+import { Cpu, Download, Upload } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+import type { DeviceProfile } from '@/lib/midi/types';
+import { parseDeviceProfile, serializeDeviceProfile } from '@/lib/midi/profiles';
+import { formatNoteName } from '@/lib/midi/transform';
+interface DeviceProfileSelectorProps {
+  profiles: DeviceProfile[];
+  profile: DeviceProfile;
+  onProfileChange: (profile: DeviceProfile) => void;
+  onImportProfile: (profile: DeviceProfile) => void;
+}
+export function DeviceProfileSelector({
+  profiles,
+  profile,
+  onProfileChange,
+  onImportProfile
+}: DeviceProfileSelectorProps) {
+  const handleSelect = (id: string) => {
+    const selected = profiles.find(p => p.id === id);
+    if (selected) onProfileChange(selected);
+  };
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseDeviceProfile(await file.text());
+      onImportProfile(imported);
+      toast.success('Profile imported', {
+        description: `${imported.name} with ${imported.outputs.length} outputs`
+      });
+    } catch (error) {
+      toast.error('Failed to import profile', {
+        description: error instanceof Error ? error.message : 'Invalid profile'
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeDeviceProfile(profile)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${profile.name.replace(/[^\w-]+/g, '_')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+  return <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Cpu className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Device Profile</h2>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="space-y-2 md:w-1/3">
+            <Label htmlFor="deviceProfile">Target device</Label>
+            <Select value={profile.id} onValueChange={handleSelect}>
+              <SelectTrigger id="deviceProfile">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map(p => <SelectItem key={p.id} value={p.id}>
+                    {p.name}{p.builtIn ? '' : ' (custom)'}
+                  </SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <input type="file" accept=".json,application/json" onChange={handleFileInput} className="hidden" id="profile-input" />
+            <Button asChild variant="outline" className="cursor-pointer">
+              <label htmlFor="profile-input">
+                <Upload className="w-4 h-4 mr-2" />
+                Import JSON
+              </label>
+            </Button>
+            <Button variant="outline" onClick={handleExport}>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{profile.outputs.length} outputs</Badge>
+          <Badge variant="secondary">Max {profile.maxStepsPerClip} steps</Badge>
+          <Badge variant="secondary">{profile.stepsPerBar} steps/bar</Badge>
+          <Badge variant="secondary">
+            PPQ {profile.allowedPpq.length > 0 ? profile.allowedPpq.join(' / ') : 'any'}
+          </Badge>
+          <Badge variant="secondary">
+            Notes {formatNoteName(profile.noteRange.min)}–{formatNoteName(profile.noteRange.max)}
+          </Badge>
+          <Badge variant="secondary">
+            {profile.maxPolyphony ? `${profile.maxPolyphony}-voice` : 'Unlimited voices'}
+          </Badge>
+        </div>
+      </div>
+    </Card>;
+}
@@ -0,0 +1,101 @@
+import { Drum, Plus, RotateCcw, X } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import type { DrumLane } from '@/lib/midi/types';
+import { DEFAULT_DRUM_LANES, getDrumNoteName } from '@/lib/midi/gm-drums';
+import { formatNoteName, parseNoteName } from '@/lib/midi/transform';
+interface DrumLaneEditorProps {
+  lanes: DrumLane[];
+  onLanesChange: (lanes: DrumLane[]) => void;
+}
+export function DrumLaneEditor({
+  lanes,
+  onLanesChange
+}: DrumLaneEditorProps) {
+  const updateLane = (index: number, changes: Partial<DrumLane>) => {
+    onLanesChange(lanes.map((lane, i) => i === index ? {
+      ...lane,
+      ...changes
+    } : lane));
+  };
+
+  // "35, 36, D2" -> [35, 36, 38]; invalid entries are dropped
+  const parseNoteList = (value: string): number[] => Array.from(new Set(value.split(/[\s,]+/).map(parseNoteName).filter((n): n is number => n !== null)));
+
+  const handleAddLane = () => {
+    let n = lanes.length + 1;
+    while (lanes.some(lane => lane.id === `lane-${n}`)) n++;
+    onLanesChange([...lanes, {
+      id: `lane-${n}`,
+      name: `Lane ${n}`,
+      notes: []
+    }]);
+  };
+  return <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Drum className="w-5 h-5 text-primary" />
+            Drum Lanes
+          </h2>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleAddLane}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Lane
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onLanesChange(DEFAULT_DRUM_LANES)}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              GM Defaults
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Each lane becomes its own track in the mapping above. A lane with no notes takes every note the other lanes don't list.
+        </p>
+
+        <div className="space-y-3">
+          {lanes.map((lane, index) => <div key={lane.id} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto] gap-3 items-start">
+              <div className="space-y-1">
+                <Label htmlFor={`${lane.id}-name`} className="text-xs">Name</Label>
+                <Input id={`${lane.id}-name`} defaultValue={lane.name} onBlur={e => e.target.value.trim() && updateLane(index, {
+              name: e.target.value.trim()
+            })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${lane.id}-notes`} className="text-xs">Notes</Label>
+                <Input id={`${lane.id}-notes`} key={lane.notes.join(',')} placeholder="Everything else" defaultValue={lane.notes.join(', ')} onBlur={e => updateLane(index, {
+              notes: parseNoteList(e.target.value)
+            })} className="font-mono" />
+                {lane.notes.length > 0 && <p className="text-xs text-muted-foreground truncate">
+                    {lane.notes.map(getDrumNoteName).join(', ')}
+                  </p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${lane.id}-target`} className="text-xs">Play on note</Label>
+                <Input id={`${lane.id}-target`} key={lane.targetNote ?? 'none'} placeholder="Original" defaultValue={lane.targetNote !== undefined ? formatNoteName(lane.targetNote) : ''} onBlur={e => {
+              const value = e.target.value.trim();
+              const note = parseNoteName(value);
+              if (value === '') {
+                updateLane(index, {
+                  targetNote: undefined
+                });
+              } else if (note !== null) {
+                updateLane(index, {
+                  targetNote: note
+                });
+              } else {
+                e.target.value = lane.targetNote !== undefined ? formatNoteName(lane.targetNote) : '';
+              }
+            }} className="font-mono" />
+              </div>
+              <Button variant="ghost" size="icon" className="mt-5" onClick={() => onLanesChange(lanes.filter((_, i) => i !== index))} aria-label={`Remove lane ${lane.name}`} disabled={lanes.length === 1}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>)}
+        </div>
+      </div>
+    </Card>;
+}
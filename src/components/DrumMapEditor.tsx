@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Copy, Download, Grid3X3, Trash2, Upload } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from 'sonner';
+import type { DrumMap } from '@/lib/midi/types';
+import { GM_DRUM_NOTES, parseDrumMap, serializeDrumMap } from '@/lib/midi/gm-drums';
+import { formatNoteName, parseNoteName } from '@/lib/midi/transform';
+interface DrumMapEditorProps {
+  maps: DrumMap[];
+  onSaveMap: (map: DrumMap) => void;
+  onDeleteMap: (id: string) => void;
+}
+export function DrumMapEditor({
+  maps,
+  onSaveMap,
+  onDeleteMap
+}: DrumMapEditorProps) {
+  const [selectedId, setSelectedId] = useState(maps[0]?.id ?? '');
+  const map = maps.find(m => m.id === selectedId) ?? maps[0];
+  if (!map) return null;
+
+  const updateNote = (source: number, value: string) => {
+    const notes = {
+      ...map.notes
+    };
+    const target = parseNoteName(value.trim());
+    if (value.trim() === '') {
+      delete notes[source];
+    } else if (target !== null) {
+      notes[source] = target;
+    } else {
+      return false;
+    }
+    onSaveMap({
+      ...map,
+      notes
+    });
+    return true;
+  };
+
+  const handleDuplicate = () => {
+    let n = 1;
+    while (maps.some(m => m.id === `user-copy-${n}`)) n++;
+    const copy: DrumMap = {
+      id: `user-copy-${n}`,
+      name: `${map.name} (copy${n > 1 ? ` ${n}` : ''})`,
+      notes: {
+        ...map.notes
+      }
+    };
+    onSaveMap(copy);
+    setSelectedId(copy.id);
+  };
+
+  const handleDelete = () => {
+    onDeleteMap(map.id);
+    setSelectedId(maps.find(m => m.id !== map.id)?.id ?? '');
+  };
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseDrumMap(await file.text());
+      onSaveMap(imported);
+      setSelectedId(imported.id);
+      toast.success('Drum map imported', {
+        description: `${imported.name} with ${Object.keys(imported.notes).length} notes`
+      });
+    } catch (error) {
+      toast.error('Failed to import drum map', {
+        description: error instanceof Error ? error.message : 'Invalid drum map'
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeDrumMap(map)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${map.name.replace(/[^\w-]+/g, '_')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+  return <Card className="p-6">
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Grid3X3 className="w-5 h-5 text-primary" />
+          <h2 className="text-xl font-semibold">Drum Maps</h2>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="space-y-2 md:w-1/3">
+            <Label htmlFor="drumMapEdit">Edit map</Label>
+            <Select value={map.id} onValueChange={setSelectedId}>
+              <SelectTrigger id="drumMapEdit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {maps.map(m => <SelectItem key={m.id} value={m.id}>
+                    {m.name}{m.builtIn ? '' : ' (custom)'}
+                  </SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleDuplicate}>
+              <Copy className="w-4 h-4 mr-2" />
+              {map.builtIn ? 'Duplicate to edit' : 'Duplicate'}
+            </Button>
+            <input type="file" accept=".json,application/json" onChange={handleFileInput} className="hidden" id="drum-map-input" />
+            <Button asChild variant="outline" className="cursor-pointer">
+              <label htmlFor="drum-map-input">
+                <Upload className="w-4 h-4 mr-2" />
+                Import JSON
+              </label>
+            </Button>
+            <Button variant="outline" onClick={handleExport}>
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </Button>
+            {!map.builtIn && <Button variant="ghost" onClick={handleDelete} aria-label={`Delete ${map.name}`}>
+                <Trash2 className="w-4 h-4" />
+              </Button>}
+          </div>
+        </div>
+
+        {!map.builtIn && <div className="space-y-1 md:w-1/3">
+            <Label htmlFor="drumMapName" className="text-xs">Name</Label>
+            <Input id="drumMapName" key={map.id} defaultValue={map.name} onBlur={e => e.target.value.trim() && onSaveMap({
+          ...map,
+          name: e.target.value.trim()
+        })} />
+          </div>}
+
+        <p className="text-xs text-muted-foreground">
+          Target note for each General MIDI drum sound. Leave a note empty to keep it unchanged, or drop it per output.
+          {map.builtIn && ' Built-in maps are read-only; duplicate one to edit it.'}
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-2">
+          {Object.entries(GM_DRUM_NOTES).map(([key, name]) => {
+          const source = Number(key);
+          const target = map.notes[source];
+          const display = target !== undefined ? formatNoteName(target) : '';
+          return <div key={source} className="space-y-1">
+                <Label htmlFor={`drum-map-${source}`} className="text-xs truncate block" title={name}>
+                  {source} {name}
+                </Label>
+                <Input id={`drum-map-${source}`} key={`${map.id}-${display}`} placeholder="—" defaultValue={display} disabled={map.builtIn} onBlur={e => {
+              if (e.target.value.trim() !== display && !updateNote(source, e.target.value)) e.target.value = display;
+            }} className="font-mono h-8" />
+              </div>;
+        })}
+        </div>
+      </div>
+    </Card>;
+}
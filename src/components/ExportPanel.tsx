@@ -2,21 +2,35 @@ import { useState } from 'react';
 import { Download, Loader2, CheckCircle2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
+import { Checkbox } from './ui/checkbox';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner';
-import type { ParsedMIDI, OutputTrackConfig, SplitSettings, ExportFile, ExportMetadata } from '@/lib/midi/types';
-import { mergeTracks, splitEventsBySteps } from '@/lib/midi/transform';
-import { writeMIDIFile } from '@/lib/midi/writer';
+import type { ParsedMIDI, DeviceProfile, OutputTrackConfig, SplitSettings, ExportFile, ExportMetadata, ExportFormat, ExportSettings, ClipRange, MIDIEvent } from '@/lib/midi/types';
+import { collectMarkerTicks, getCropTicks, getStartTicks, scaleTicks } from '@/lib/midi/transform';
+import { formatClipPath } from '@/lib/midi/profiles';
+import { getSharedClipRanges, processOutput } from '@/lib/midi/pipeline';
+import { writeMIDIFile, writeMultiTrackMIDIFile } from '@/lib/midi/writer';
 import { createExportZip } from '@/lib/zip/package';
-import { ticksToSteps } from '@/lib/midi/parser';
+import { calculateSteps, ticksToSteps } from '@/lib/midi/parser';
+import { getClipTempoEvents } from '@/lib/midi/tempo';
+import { getClipTimeSignatures } from '@/lib/midi/meter';
+import { EXPORT_FORMAT_LABELS } from '@/lib/midi/constants';
 interface ExportPanelProps {
   parsedMidi: ParsedMIDI;
+  profile: DeviceProfile;
   configs: Map<string, OutputTrackConfig>;
   settings: SplitSettings;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
 }
 export function ExportPanel({
   parsedMidi,
+  profile,
   configs,
-  settings
+  settings,
+  exportSettings,
+  onExportSettingsChange
 }: ExportPanelProps) {
   const [isExporting, setIsExporting] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
@@ -31,31 +45,131 @@ export function ExportPanel({
     setIsComplete(false);
     try {
       const exportFiles: ExportFile[] = [];
+      const chains: NonNullable<ExportMetadata['chains']> = [];
+      const gaps: NonNullable<ExportMetadata['gaps']> = [];
+      const markerTicks = collectMarkerTicks(parsedMidi.tracks);
+      const { format, runningStatus } = exportSettings;
+      // Ranges, tempo and meter are in source ticks; clips are already at the export PPQ
+      const sourcePpq = parsedMidi.header.ppq;
+      const toExportTicks = (ticks: number) => scaleTicks(ticks, sourcePpq, settings.ppq, settings.ppqRounding);
+      // Steps count from the effective start; a clip covers its loop length,
+      // which can run past the end of its range
+      const startTicks = getStartTicks(parsedMidi.tracks, settings, sourcePpq, parsedMidi.meterMap);
+      const stepRangeOf = (range: ClipRange, length: number) => {
+        const start = ticksToSteps(range.start - startTicks, sourcePpq, settings.stepsPerBar);
+        return {
+          start,
+          end: start + calculateSteps(length, sourcePpq, settings.stepsPerBar)
+        };
+      };
+      const writeOptionsFor = (range: ClipRange, length: number) => ({
+        tempos: getClipTempoEvents(parsedMidi.tempoMap, range.start, range.end).map(tempo => ({
+          ...tempo,
+          ticks: toExportTicks(tempo.ticks)
+        })),
+        timeSignatures: getClipTimeSignatures(parsedMidi.meterMap, range.start, range.end, sourcePpq).map(meter => ({
+          ...meter,
+          ticks: toExportTicks(meter.ticks)
+        })),
+        runningStatus,
+        endOfTrackTicks: toExportTicks(length)
+      });
+      const isSkipped = (clip: MIDIEvent[]) => settings.skipEmptyClips && !clip.some(event => event.type === 'noteOn');
 
-      // Process each output track
-      for (const [trackId, config] of configs.entries()) {
-        const mergedEvents = mergeTracks(parsedMidi.tracks, config);
-        if (mergedEvents.length === 0) {
-          continue;
-        }
-        const splitEvents = splitEventsBySteps(mergedEvents, settings.maxStepsPerClip, settings.ppq, settings.stepsPerBar);
-        splitEvents.forEach((events, index) => {
-          const splitIndex = splitEvents.length > 1 ? index + 1 : undefined;
-          const filename = splitIndex ? `${trackId}_${splitIndex}.mid` : `${trackId}.mid`;
-          const midiData = writeMIDIFile(events, settings.ppq, `Track ${trackId}`, parsedMidi.tempo || 120);
-          const startStep = index * settings.maxStepsPerClip;
-          const endStep = Math.min(startStep + settings.maxStepsPerClip, ticksToSteps(parsedMidi.duration, settings.ppq, settings.stepsPerBar));
+      // Process each output track, in device order. multiTrack files put the
+      // outputs side by side, so there they all share one set of clip boundaries
+      const assigned = profile.outputs.flatMap(output => {
+        const config = configs.get(output.id);
+        return config ? [{ output, config }] : [];
+      });
+      const sharedRanges = format === 'multiTrack'
+        ? getSharedClipRanges(parsedMidi, assigned.map(({ config }) => config), settings, markerTicks)
+        : undefined;
+      const outputs = assigned.flatMap(({ output, config }) => {
+        const processed = processOutput(parsedMidi, config, settings, markerTicks, sharedRanges);
+        return processed.clips.length > 0 ? [{ ...processed, output }] : [];
+      });
+
+      if (format === 'multiTrack') {
+        // One file per split index; each output's clip over the shared range becomes a track
+        const ranges = outputs.length > 0 ? sharedRanges ?? [] : [];
+        for (let clipIndex = 0; clipIndex < ranges.length; clipIndex++) {
+          const range = ranges[clipIndex];
+          const length = outputs[0].lengths[clipIndex]; // the same for every output over a shared range
+          const trackIds = outputs.map(({ output }) => output.id);
+          const splitIndex = ranges.length > 1 ? clipIndex + 1 : undefined;
+          if (outputs.every(({ clips }) => isSkipped(clips[clipIndex]))) {
+            gaps.push({ trackIds, splitIndex, stepRange: stepRangeOf(range, length) });
+            continue;
+          }
+          const tracks = outputs.map(({ output, clips }) => ({
+            name: output.name,
+            events: clips[clipIndex]
+          }));
+          const bundle = {
+            id: trackIds.join('-'),
+            name: outputs.map(({ output }) => output.name).join(' + ')
+          };
           exportFiles.push({
-            filename,
-            data: midiData,
-            trackId: trackId as 'A' | 'B' | 'C' | 'D',
+            filename: formatClipPath(profile, bundle, splitIndex),
+            data: writeMultiTrackMIDIFile(tracks, settings.ppq, writeOptionsFor(range, length)),
+            format,
+            trackIds,
             splitIndex,
-            stepRange: {
-              start: startStep,
-              end: endStep
-            }
+            stepRange: stepRangeOf(range, length),
+            overrun: outputs.some(({ overruns }) => overruns.includes(clipIndex)) || undefined
           });
-        });
+        }
+      } else {
+        for (const { output, ranges, lengths, overruns, clips, repeats } of outputs) {
+          const trackId = output.id;
+
+          // Only unique patterns are written; with dedupe off every clip is its own pattern
+          const filenames = repeats.patterns.map((clipIndex, patternIndex) => {
+            if (isSkipped(clips[clipIndex])) return null;
+            const splitIndex = clips.length > 1 ? patternIndex + 1 : undefined;
+            const range = ranges[clipIndex];
+            const midiData = writeMIDIFile(clips[clipIndex], settings.ppq, output.name, writeOptionsFor(range, lengths[clipIndex]), format === 'type0' ? 0 : 1);
+            const stepRange = stepRangeOf(range, lengths[clipIndex]);
+            // With user split points clip lengths vary, so name each clip with its length
+            const lengthSuffix = settings.splitPoints.length > 0 ? `_${stepRange.end - stepRange.start}st` : '';
+            const filename = formatClipPath(profile, output, splitIndex, splitIndex ? lengthSuffix : '');
+            exportFiles.push({
+              filename,
+              data: midiData,
+              format,
+              trackIds: [trackId],
+              splitIndex,
+              stepRange,
+              overrun: overruns.includes(clipIndex) || undefined
+            });
+            return filename;
+          });
+
+          // Gaps are numbered by their position in the song
+          clips.forEach((clip, clipIndex) => {
+            if (!isSkipped(clip)) return;
+            gaps.push({
+              trackIds: [trackId],
+              splitIndex: clips.length > 1 ? clipIndex + 1 : undefined,
+              stepRange: stepRangeOf(ranges[clipIndex], lengths[clipIndex])
+            });
+          });
+
+          if (settings.dedupe.enabled) {
+            chains.push({
+              trackId,
+              clips: repeats.chain.flatMap(({ pattern, transpose }, clipIndex) => {
+                const filename = filenames[pattern];
+                return filename ? [{
+                  filename,
+                  transpose,
+                  stepRange: stepRangeOf(ranges[clipIndex], lengths[clipIndex])
+                }] : [];
+              })
+            });
+          }
+        }
       }
       // Validate that we have files to export
       if (exportFiles.length === 0) {
@@ -66,19 +180,29 @@ export function ExportPanel({
         return;
       }
 
+      // A crop that doesn't resolve to a window exports the whole song; say so
+      const crop = getCropTicks(settings, sourcePpq, parsedMidi.meterMap) ?? undefined;
       const metadata: ExportMetadata = {
         generatedAt: new Date().toISOString(),
         sourceFile: parsedMidi.fileName,
+        sourcePpq: parsedMidi.header.ppq,
         ppq: settings.ppq,
-        splitSettings: settings,
+        profile,
+        splitSettings: crop ? settings : { ...settings, crop: null },
+        crop,
+        exportSettings,
         stripProgramChange: Array.from(configs.values()).some(c => c.stripProgramChange),
         files: exportFiles.map(f => ({
           filename: f.filename,
-          trackId: f.trackId,
+          format: f.format,
+          trackIds: f.trackIds,
           splitIndex: f.splitIndex,
           stepRange: f.stepRange,
-          sourceTracks: configs.get(f.trackId)?.sourceTracks || []
-        }))
+          overrun: f.overrun,
+          sourceTracks: f.trackIds.flatMap(trackId => configs.get(trackId)?.sourceTracks || [])
+        })),
+        gaps: gaps.length > 0 ? gaps : undefined,
+        chains: chains.length > 0 ? chains : undefined
       };
       const zipBlob = await createExportZip(exportFiles, metadata);
 
@@ -111,6 +235,30 @@ export function ExportPanel({
           
         </div>
 
+        <div className="flex flex-col md:flex-row items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="exportFormat">File format</Label>
+            <Select value={exportSettings.format} onValueChange={value => onExportSettingsChange({
+            ...exportSettings,
+            format: value as ExportFormat
+          })}>
+              <SelectTrigger id="exportFormat" className="w-[280px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="runningStatus" checked={exportSettings.runningStatus} onCheckedChange={checked => onExportSettingsChange({
+            ...exportSettings,
+            runningStatus: checked === true
+          })} />
+            <Label htmlFor="runningStatus">Use running status</Label>
+          </div>
+        </div>
+
         <Button size="lg" onClick={handleExport} disabled={isExporting || configs.size === 0} className="w-full md:w-auto min-w-[200px] shadow-glow-cyan">
           {isExporting ? <>
               <Loader2 className="w-5 h-5 mr-2 animate-spin" />
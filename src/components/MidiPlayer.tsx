@@ -1,4 +1,5 @@
-import { Play, Pause, Square, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+import { Play, Pause, Square, Loader2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
@@ -14,6 +15,10 @@ interface MidiPlayerProps {
   onPause: () => void;
   onStop: () => void;
   onSeek: (seconds: number) => void;
+  barTimes?: number[]; // start of each bar in seconds; enables selecting a crop range
+  selection?: { start: number; end: number } | null; // seconds
+  onSelectBars?: (startBar: number, endBar: number) => void; // 0-based, end exclusive
+  onClearSelection?: () => void;
 }
 
 export function MidiPlayer({
@@ -27,14 +32,32 @@ export function MidiPlayer({
   onPause,
   onStop,
   onSeek,
+  barTimes = [],
+  selection = null,
+  onSelectBars,
+  onClearSelection,
 }: MidiPlayerProps) {
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const progress = duration > 0 ? (position / duration) * 100 : 0;
+  // Bar under the pointer, from its position along the strip
+  const barAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const seconds = ((e.clientX - rect.left) / rect.width) * duration;
+    const index = barTimes.findIndex(time => time > seconds);
+    return Math.max(0, (index === -1 ? barTimes.length : index) - 1);
+  };
+  const percentOf = (seconds: number) => Math.min(100, Math.max(0, duration > 0 ? (seconds / duration) * 100 : 0));
+  const barEnd = (bar: number) => barTimes[bar + 1] ?? duration;
+
+  const shown = drag
+    ? { start: barTimes[Math.min(drag.from, drag.to)], end: barEnd(Math.max(drag.from, drag.to)) }
+    : selection;
 
   return (
     <Card className="p-6">
@@ -56,6 +79,50 @@ export function MidiPlayer({
           className="cursor-pointer"
         />
 
+        {/* Crop range: drag across bars to export only that part */}
+        {onSelectBars && barTimes.length > 0 && (
+          <div className="space-y-1">
+            <div
+              className="relative h-6 rounded bg-accent/30 border border-border cursor-crosshair select-none touch-none"
+              onPointerDown={e => {
+                if (!isInitialized) return;
+                e.currentTarget.setPointerCapture(e.pointerId);
+                const bar = barAt(e);
+                setDrag({ from: bar, to: bar });
+              }}
+              onPointerMove={e => drag && setDrag({ ...drag, to: barAt(e) })}
+              onPointerUp={() => {
+                if (!drag) return;
+                onSelectBars(Math.min(drag.from, drag.to), Math.max(drag.from, drag.to) + 1);
+                setDrag(null);
+              }}
+            >
+              {barTimes.map((time, bar) => (
+                <div key={bar} className="absolute top-0 bottom-0 w-px bg-border" style={{ left: `${percentOf(time)}%` }} />
+              ))}
+              {shown && (
+                <div
+                  className="absolute top-0 bottom-0 bg-primary/30 border-x border-primary"
+                  style={{ left: `${percentOf(shown.start)}%`, width: `${percentOf(shown.end) - percentOf(shown.start)}%` }}
+                />
+              )}
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {drag
+                  ? `Bars ${Math.min(drag.from, drag.to) + 1}–${Math.max(drag.from, drag.to) + 1}`
+                  : selection ? `Exporting ${formatTime(selection.start)}–${formatTime(selection.end)}` : 'Drag across the bars to export only part of the song'}
+              </span>
+              {selection && onClearSelection && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onClearSelection}>
+                  <X className="h-3 w-3 mr-1" />
+                  Clear crop
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Transport Controls */}
         <div className="flex items-center justify-center gap-2">
           <Button
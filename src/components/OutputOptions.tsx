@@ -0,0 +1,720 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ChaseSettings, DeviceOutput, DrumMap, NoteFilterSettings, NoteRange, OutputTrackConfig, PatchSettings, PlayableRangeSettings, PolyphonySettings, QuantizeSettings, RangeFitMode, SustainSettings, TiedNotePolicy, TiedNoteSettings, VelocityCurve, VelocityMode, VelocitySettings, VoiceStealPolicy } from '@/lib/midi/types';
+import { DEFAULT_CHASE, DEFAULT_NOTE_FILTER, DEFAULT_POLYPHONY, DEFAULT_QUANTIZE, DEFAULT_SUSTAIN, DEFAULT_TIED_NOTES, DEFAULT_VELOCITY, RANGE_FIT_MODE_LABELS, TIED_NOTE_POLICY_LABELS, VELOCITY_CURVE_LABELS, VELOCITY_MODE_LABELS, VOICE_STEAL_LABELS } from '@/lib/midi/constants';
+import { formatNoteName, parseNoteName } from '@/lib/midi/transform';
+import { getInstrumentDisplayName } from '@/lib/midi/gm-instruments';
+
+interface OutputOptionsProps {
+  outputs: DeviceOutput[];
+  deviceNoteRange: NoteRange; // profile range, used where an output has none of its own
+  deviceMaxPolyphony?: number;
+  drumMaps: DrumMap[];
+  configs: Map<string, OutputTrackConfig>;
+  onConfigChange: (configs: Map<string, OutputTrackConfig>) => void;
+}
+
+const GRID_LABELS: Record<QuantizeSettings['gridDivision'], string> = {
+  1: '1 step',
+  2: '½ step',
+  3: '⅓ step',
+  4: '¼ step',
+};
+
+export function OutputOptions({ outputs, deviceNoteRange, deviceMaxPolyphony, drumMaps, configs, onConfigChange }: OutputOptionsProps) {
+  const updateConfig = (outputId: string, changes: Partial<OutputTrackConfig>) => {
+    const config = configs.get(outputId);
+    if (!config) return;
+    const newConfigs = new Map(configs);
+    newConfigs.set(outputId, { ...config, ...changes });
+    onConfigChange(newConfigs);
+  };
+
+  const updateQuantize = (config: OutputTrackConfig, changes: Partial<QuantizeSettings>) => {
+    updateConfig(config.outputId, {
+      quantize: { ...DEFAULT_QUANTIZE, ...config.quantize, ...changes },
+    });
+  };
+
+  // Starts from the device's voice count the first time it is enabled
+  const updatePolyphony = (config: OutputTrackConfig, output: DeviceOutput, changes: Partial<PolyphonySettings>) => {
+    const maxVoices = output.maxPolyphony ?? deviceMaxPolyphony ?? DEFAULT_POLYPHONY.maxVoices;
+    updateConfig(config.outputId, {
+      polyphony: { ...DEFAULT_POLYPHONY, maxVoices, ...config.polyphony, ...changes },
+    });
+  };
+
+  const updateChase = (config: OutputTrackConfig, changes: Partial<ChaseSettings>) => {
+    updateConfig(config.outputId, {
+      chase: { ...DEFAULT_CHASE, ...config.chase, ...changes },
+    });
+  };
+
+  const updateTiedNotes = (config: OutputTrackConfig, changes: Partial<TiedNoteSettings>) => {
+    updateConfig(config.outputId, {
+      tiedNotes: { ...DEFAULT_TIED_NOTES, ...config.tiedNotes, ...changes },
+    });
+  };
+
+  const updateSustain = (config: OutputTrackConfig, changes: Partial<SustainSettings>) => {
+    updateConfig(config.outputId, {
+      sustain: { ...DEFAULT_SUSTAIN, ...config.sustain, ...changes },
+    });
+  };
+
+  const updateNoteFilter = (config: OutputTrackConfig, changes: Partial<NoteFilterSettings>) => {
+    updateConfig(config.outputId, {
+      noteFilter: { ...DEFAULT_NOTE_FILTER, ...config.noteFilter, ...changes },
+    });
+  };
+
+  // Starts from the device's range for the output the first time it is enabled
+  const updatePlayableRange = (config: OutputTrackConfig, output: DeviceOutput, changes: Partial<PlayableRangeSettings>) => {
+    const range = output.noteRange ?? deviceNoteRange;
+    const defaults: PlayableRangeSettings = { enabled: false, mode: 'fold', low: range.min, high: range.max };
+    updateConfig(config.outputId, {
+      playableRange: { ...defaults, ...config.playableRange, ...changes },
+    });
+  };
+
+  const updateVelocity = (config: OutputTrackConfig, changes: Partial<VelocitySettings>) => {
+    updateConfig(config.outputId, {
+      velocity: { ...DEFAULT_VELOCITY, ...config.velocity, ...changes },
+    });
+  };
+
+  const updateAccent = (config: OutputTrackConfig, changes: Partial<VelocitySettings['accent']>) => {
+    const velocity = { ...DEFAULT_VELOCITY, ...config.velocity };
+    updateVelocity(config, { accent: { ...velocity.accent, ...changes } });
+  };
+
+  const updatePatch = (config: OutputTrackConfig, changes: Partial<PatchSettings>) => {
+    const patch = { ...config.patch, ...changes };
+    const isEmpty = Object.values(patch).every(v => v === undefined);
+    updateConfig(config.outputId, { patch: isEmpty ? undefined : patch });
+  };
+
+  // Blank clears the value; anything outside 0-127 is ignored (null)
+  const parseDataByte = (value: string): number | undefined | null => {
+    if (value.trim() === '') return undefined;
+    const num = parseInt(value);
+    return !isNaN(num) && num >= 0 && num <= 127 ? num : null;
+  };
+
+  // "1, 7, 64" -> [1, 7, 64]; invalid entries are dropped
+  const parseControllerList = (value: string): number[] =>
+    value
+      .split(/[\s,]+/)
+      .map(v => parseInt(v))
+      .filter(n => !isNaN(n) && n >= 0 && n <= 127);
+
+  // Percent inputs accept 0-100 and ignore anything else
+  const parsePercent = (value: string): number | undefined => {
+    const num = parseInt(value);
+    return !isNaN(num) && num >= 0 && num <= 100 ? num : undefined;
+  };
+
+  // Device order, not alphabetical: T10 comes after T9
+  const assignedOutputs = outputs.flatMap(output => {
+    const config = configs.get(output.id);
+    return config ? [{ output, config }] : [];
+  });
+
+  if (assignedOutputs.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-primary" />
+        Output Processing
+      </h3>
+
+      {assignedOutputs.map(({ output, config }) => {
+        const quantize = { ...DEFAULT_QUANTIZE, ...config.quantize };
+        const chase = { ...DEFAULT_CHASE, ...config.chase };
+        const tiedNotes = { ...DEFAULT_TIED_NOTES, ...config.tiedNotes };
+        const patch = config.patch ?? {};
+        const noteFilter = { ...DEFAULT_NOTE_FILTER, ...config.noteFilter };
+        const playableRange = config.playableRange;
+        const polyphony = { ...DEFAULT_POLYPHONY, ...config.polyphony };
+        const velocity = { ...DEFAULT_VELOCITY, ...config.velocity };
+        const sustain = { ...DEFAULT_SUSTAIN, ...config.sustain };
+        // Number input bound to a velocity field; out-of-range entries are ignored
+        const velocityInput = (key: 'fixed' | 'scale' | 'offset' | 'low' | 'high' | 'amount' | 'ghostThreshold', label: string, min: number, max: number) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={id(`velocity-${key}`)}>{label}</Label>
+            <Input
+              id={id(`velocity-${key}`)}
+              type="number"
+              min={min}
+              max={max}
+              value={velocity[key]}
+              onChange={e => {
+                const num = parseInt(e.target.value);
+                if (!isNaN(num) && num >= min && num <= max) updateVelocity(config, { [key]: num });
+              }}
+              className="font-mono"
+            />
+          </div>
+        );
+        const id = (name: string) => `${config.outputId}-${name}`;
+
+        return (
+          <div key={config.outputId} className="p-4 bg-accent/30 rounded-lg border border-border space-y-4">
+            <div className="text-sm font-semibold">{output.name}</div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={id('outputChannel')}>Output channel</Label>
+                <Select
+                  value={config.outputChannel !== undefined ? String(config.outputChannel) : 'source'}
+                  onValueChange={value => updateConfig(config.outputId, {
+                    outputChannel: value === 'source' ? undefined : Number(value),
+                  })}
+                >
+                  <SelectTrigger id={id('outputChannel')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="source">Keep source</SelectItem>
+                    {Array.from({ length: 16 }, (_, ch) => (
+                      <SelectItem key={ch} value={String(ch)}>Channel {ch + 1}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(['bankMsb', 'bankLsb', 'program'] as const).map(key => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={id(key)}>
+                    {key === 'bankMsb' ? 'Bank MSB (CC0)' : key === 'bankLsb' ? 'Bank LSB (CC32)' : 'Program'}
+                  </Label>
+                  <Input
+                    id={id(key)}
+                    type="number"
+                    min="0"
+                    max="127"
+                    placeholder="—"
+                    value={patch[key] ?? ''}
+                    onChange={e => {
+                      const value = parseDataByte(e.target.value);
+                      if (value !== null) updatePatch(config, { [key]: value });
+                    }}
+                    className="font-mono"
+                  />
+                  {key === 'program' && patch.program !== undefined && (
+                    <p className="text-xs text-muted-foreground truncate">{getInstrumentDisplayName(patch.program)}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={id('tiedNotes')}>Notes across clip boundaries</Label>
+                <Select
+                  value={tiedNotes.policy}
+                  onValueChange={value => updateTiedNotes(config, { policy: value as TiedNotePolicy })}
+                >
+                  <SelectTrigger id={id('tiedNotes')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TIED_NOTE_POLICY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {tiedNotes.policy === 'dropLate' && (
+                <div className="space-y-2">
+                  <Label htmlFor={id('dropWindow')}>Drop window (ticks before clip end)</Label>
+                  <Input
+                    id={id('dropWindow')}
+                    type="number"
+                    min="0"
+                    value={tiedNotes.dropWindowTicks}
+                    onChange={e => {
+                      const num = parseInt(e.target.value);
+                      if (!isNaN(num) && num >= 0) updateTiedNotes(config, { dropWindowTicks: num });
+                    }}
+                    className="font-mono"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('sustain')}
+                  checked={sustain.enabled}
+                  onCheckedChange={checked => updateSustain(config, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('sustain')}>Bake sustain pedal (CC64) into note lengths</Label>
+              </div>
+
+              {sustain.enabled && (
+                <div className="flex items-center gap-2 pl-6">
+                  <Checkbox
+                    id={id('sostenuto')}
+                    checked={sustain.sostenuto}
+                    onCheckedChange={checked => updateSustain(config, { sostenuto: checked === true })}
+                  />
+                  <Label htmlFor={id('sostenuto')}>Also sostenuto (CC66)</Label>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={id('drumMap')}>Drum map</Label>
+                <Select
+                  value={config.drumMap?.map.id ?? 'none'}
+                  onValueChange={value => {
+                    const map = drumMaps.find(m => m.id === value);
+                    updateConfig(config.outputId, {
+                      drumMap: map ? { map, dropUnmapped: config.drumMap?.dropUnmapped ?? false } : undefined,
+                    });
+                  }}
+                >
+                  <SelectTrigger id={id('drumMap')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (keep notes)</SelectItem>
+                    {drumMaps.map(map => (
+                      <SelectItem key={map.id} value={map.id}>{map.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {config.drumMap && (
+                <div className="flex items-end gap-2 pb-2">
+                  <Checkbox
+                    id={id('dropUnmapped')}
+                    checked={config.drumMap.dropUnmapped}
+                    onCheckedChange={checked => updateConfig(config.outputId, {
+                      drumMap: { ...config.drumMap!, dropUnmapped: checked === true },
+                    })}
+                  />
+                  <Label htmlFor={id('dropUnmapped')}>Drop unmapped notes</Label>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('noteFilter')}
+                  checked={noteFilter.enabled}
+                  onCheckedChange={checked => updateNoteFilter(config, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('noteFilter')}>Note range (keyboard split)</Label>
+              </div>
+
+              {noteFilter.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pl-6">
+                  {(['low', 'high'] as const).map(key => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={id(key)}>{key === 'low' ? 'Lowest note' : 'Highest note'}</Label>
+                      <Input
+                        id={id(key)}
+                        // Remount when the stored value changes so a rejected entry snaps back
+                        key={noteFilter[key]}
+                        placeholder="e.g. C3 or 48"
+                        defaultValue={formatNoteName(noteFilter[key])}
+                        onBlur={e => {
+                          const note = parseNoteName(e.target.value);
+                          const other = key === 'low' ? noteFilter.high : noteFilter.low;
+                          if (note !== null && (key === 'low' ? note <= other : note >= other)) {
+                            updateNoteFilter(config, { [key]: note });
+                          } else {
+                            e.target.value = formatNoteName(noteFilter[key]);
+                          }
+                        }}
+                        className="font-mono"
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <Label htmlFor={id('transpose')}>Transpose (semitones)</Label>
+                    <Input
+                      id={id('transpose')}
+                      type="number"
+                      min="-48"
+                      max="48"
+                      value={noteFilter.transpose}
+                      onChange={e => {
+                        const num = parseInt(e.target.value);
+                        if (!isNaN(num) && num >= -48 && num <= 48) updateNoteFilter(config, { transpose: num });
+                      }}
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('playableRange')}
+                  checked={playableRange?.enabled ?? false}
+                  onCheckedChange={checked => updatePlayableRange(config, output, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('playableRange')}>Fit notes to playable range</Label>
+              </div>
+
+              {playableRange?.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pl-6">
+                  <div className="space-y-2">
+                    <Label htmlFor={id('rangeMode')}>Out-of-range notes</Label>
+                    <Select
+                      value={playableRange.mode}
+                      onValueChange={value => updatePlayableRange(config, output, { mode: value as RangeFitMode })}
+                    >
+                      <SelectTrigger id={id('rangeMode')}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RANGE_FIT_MODE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {(['low', 'high'] as const).map(key => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={id(`range-${key}`)}>{key === 'low' ? 'Lowest playable' : 'Highest playable'}</Label>
+                      <Input
+                        id={id(`range-${key}`)}
+                        key={playableRange[key]}
+                        placeholder="e.g. C2 or 36"
+                        defaultValue={formatNoteName(playableRange[key])}
+                        onBlur={e => {
+                          const note = parseNoteName(e.target.value);
+                          const other = key === 'low' ? playableRange.high : playableRange.low;
+                          if (note !== null && (key === 'low' ? note <= other : note >= other)) {
+                            updatePlayableRange(config, output, { [key]: note });
+                          } else {
+                            e.target.value = formatNoteName(playableRange[key]);
+                          }
+                        }}
+                        className="font-mono"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('velocity')}
+                  checked={velocity.enabled}
+                  onCheckedChange={checked => updateVelocity(config, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('velocity')}>Velocity processing</Label>
+              </div>
+
+              {velocity.enabled && (
+                <div className="space-y-4 pl-6">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor={id('velocityMode')}>Velocity</Label>
+                      <Select
+                        value={velocity.mode}
+                        onValueChange={value => updateVelocity(config, { mode: value as VelocityMode })}
+                      >
+                        <SelectTrigger id={id('velocityMode')}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(VELOCITY_MODE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {velocity.mode === 'fixed' && velocityInput('fixed', 'Value', 1, 127)}
+                    {velocity.mode === 'scale' && [velocityInput('scale', 'Scale %', 0, 400), velocityInput('offset', 'Offset', -127, 127)]}
+                    {velocity.mode === 'compress' && [velocityInput('low', 'Range low', 1, 127), velocityInput('high', 'Range high', 1, 127), velocityInput('amount', 'Amount %', 0, 100)]}
+                    {velocity.mode === 'curve' && (
+                      <div className="space-y-2">
+                        <Label htmlFor={id('velocityCurve')}>Curve</Label>
+                        <Select
+                          value={velocity.curve}
+                          onValueChange={value => updateVelocity(config, { curve: value as VelocityCurve })}
+                        >
+                          <SelectTrigger id={id('velocityCurve')}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(VELOCITY_CURVE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {velocityInput('ghostThreshold', 'Drop notes below', 0, 127)}
+                    <div className="flex items-end gap-2 pb-2">
+                      <Checkbox
+                        id={id('accent')}
+                        checked={velocity.accent.enabled}
+                        onCheckedChange={checked => updateAccent(config, { enabled: checked === true })}
+                      />
+                      <Label htmlFor={id('accent')}>Accent loud notes</Label>
+                    </div>
+                    {velocity.accent.enabled && (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor={id('accentThreshold')}>Accent at velocity</Label>
+                          <Input
+                            id={id('accentThreshold')}
+                            type="number"
+                            min="1"
+                            max="127"
+                            value={velocity.accent.threshold}
+                            onChange={e => {
+                              const num = parseInt(e.target.value);
+                              if (!isNaN(num) && num >= 1 && num <= 127) updateAccent(config, { threshold: num });
+                            }}
+                            className="font-mono"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor={id('accentTarget')}>
+                            {velocity.accent.target === 'cc' ? `As CC ${velocity.accent.controller}` : `As note ${formatNoteName(velocity.accent.note)}`}
+                          </Label>
+                          <div className="flex gap-2">
+                            <Select
+                              value={velocity.accent.target}
+                              onValueChange={value => updateAccent(config, { target: value as 'cc' | 'note' })}
+                            >
+                              <SelectTrigger id={id('accentTarget')} className="w-20">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="cc">CC</SelectItem>
+                                <SelectItem value="note">Note</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              aria-label={velocity.accent.target === 'cc' ? 'Accent controller' : 'Accent note'}
+                              type="number"
+                              min="0"
+                              max="127"
+                              value={velocity.accent.target === 'cc' ? velocity.accent.controller : velocity.accent.note}
+                              onChange={e => {
+                                const value = parseDataByte(e.target.value);
+                                if (value === null || value === undefined) return;
+                                updateAccent(config, velocity.accent.target === 'cc' ? { controller: value } : { note: value });
+                              }}
+                              className="font-mono"
+                            />
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('quantize')}
+                  checked={quantize.enabled}
+                  onCheckedChange={checked => updateQuantize(config, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('quantize')}>Quantize</Label>
+              </div>
+
+              {quantize.enabled && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 pl-6">
+                  <div className="space-y-2">
+                    <Label htmlFor={id('grid')}>Grid</Label>
+                    <Select
+                      value={String(quantize.gridDivision)}
+                      onValueChange={value => updateQuantize(config, { gridDivision: Number(value) as QuantizeSettings['gridDivision'] })}
+                    >
+                      <SelectTrigger id={id('grid')}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(GRID_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={id('strength')}>Strength %</Label>
+                    <Input
+                      id={id('strength')}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={quantize.strength}
+                      onChange={e => {
+                        const strength = parsePercent(e.target.value);
+                        if (strength !== undefined) updateQuantize(config, { strength });
+                      }}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={id('swing')}>Swing %</Label>
+                    <Input
+                      id={id('swing')}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={quantize.swing}
+                      onChange={e => {
+                        const swing = parsePercent(e.target.value);
+                        if (swing !== undefined) updateQuantize(config, { swing });
+                      }}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={id('window')}>Window %</Label>
+                    <Input
+                      id={id('window')}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={quantize.window}
+                      onChange={e => {
+                        const windowPercent = parsePercent(e.target.value);
+                        if (windowPercent !== undefined) updateQuantize(config, { window: windowPercent });
+                      }}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="flex items-end gap-2 pb-2">
+                    <Checkbox
+                      id={id('quantizeLength')}
+                      checked={quantize.quantizeLength}
+                      onCheckedChange={checked => updateQuantize(config, { quantizeLength: checked === true })}
+                    />
+                    <Label htmlFor={id('quantizeLength')}>Snap note ends</Label>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('polyphony')}
+                  checked={polyphony.enabled}
+                  onCheckedChange={checked => updatePolyphony(config, output, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('polyphony')}>Limit voices</Label>
+              </div>
+
+              {polyphony.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pl-6">
+                  <div className="space-y-2">
+                    <Label htmlFor={id('maxVoices')}>Max voices (1 = mono)</Label>
+                    <Input
+                      id={id('maxVoices')}
+                      type="number"
+                      min="1"
+                      max="32"
+                      value={polyphony.maxVoices}
+                      onChange={e => {
+                        const num = parseInt(e.target.value);
+                        if (!isNaN(num) && num >= 1 && num <= 32) updatePolyphony(config, output, { maxVoices: num });
+                      }}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={id('steal')}>When all voices are busy</Label>
+                    <Select
+                      value={polyphony.steal}
+                      onValueChange={value => updatePolyphony(config, output, { steal: value as VoiceStealPolicy })}
+                    >
+                      <SelectTrigger id={id('steal')}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(VOICE_STEAL_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {polyphony.maxVoices === 1 && (
+                    <div className="flex items-end gap-2 pb-2">
+                      <Checkbox
+                        id={id('legato')}
+                        checked={polyphony.legato}
+                        onCheckedChange={checked => updatePolyphony(config, output, { legato: checked === true })}
+                      />
+                      <Label htmlFor={id('legato')}>Legato (release after the next note starts)</Label>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={id('chase')}
+                  checked={chase.enabled}
+                  onCheckedChange={checked => updateChase(config, { enabled: checked === true })}
+                />
+                <Label htmlFor={id('chase')}>Chase controller state at clip starts</Label>
+              </div>
+
+              {chase.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pl-6">
+                  <div className="space-y-2">
+                    <Label htmlFor={id('chaseControllers')}>CCs (empty = all)</Label>
+                    <Input
+                      id={id('chaseControllers')}
+                      placeholder="e.g. 1, 7, 64"
+                      defaultValue={chase.controllers.join(', ')}
+                      onBlur={e => updateChase(config, { controllers: parseControllerList(e.target.value) })}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="flex items-end gap-2 pb-2">
+                    <Checkbox
+                      id={id('chasePitchBend')}
+                      checked={chase.pitchBend}
+                      onCheckedChange={checked => updateChase(config, { pitchBend: checked === true })}
+                    />
+                    <Label htmlFor={id('chasePitchBend')}>Pitch bend</Label>
+                  </div>
+                  <div className="flex items-end gap-2 pb-2">
+                    <Checkbox
+                      id={id('chaseProgram')}
+                      checked={chase.program}
+                      onCheckedChange={checked => updateChase(config, { program: checked === true })}
+                    />
+                    <Label htmlFor={id('chaseProgram')}>Program</Label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
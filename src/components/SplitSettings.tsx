@@ -1,16 +1,45 @@
-import { Settings } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Plus, Settings, X } from 'lucide-react';
 import { Card } from './ui/card';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
-import type { SplitSettings as SplitSettingsType } from '@/lib/midi/types';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ClipLengthMode, DedupeSettings, DeviceProfile, FinalClipMode, PpqRounding, StartMode, SplitSettings as SplitSettingsType, SplitStrategy, TimeSignatureEvent } from '@/lib/midi/types';
+import { CLIP_LENGTH_LABELS, FINAL_CLIP_LABELS, PPQ_ROUNDING_LABELS, SPLIT_STRATEGY_LABELS, START_MODE_LABELS } from '@/lib/midi/constants';
+import { formatSplitPoint, getCropTicks, parseSplitPoint } from '@/lib/midi/transform';
+import { formatClipPath } from '@/lib/midi/profiles';
 interface SplitSettingsProps {
   settings: SplitSettingsType;
   onSettingsChange: (settings: SplitSettingsType) => void;
+  profile: DeviceProfile;
+  sourcePpq: number;
+  meterMap: TimeSignatureEvent[];
 }
 export function SplitSettings({
   settings,
-  onSettingsChange
+  onSettingsChange,
+  profile,
+  sourcePpq,
+  meterMap
 }: SplitSettingsProps) {
+  const [splitPointInput, setSplitPointInput] = useState('');
+  const [splitPointError, setSplitPointError] = useState(false);
+  const [startOffsetError, setStartOffsetError] = useState(false);
+  const cropText = (crop: SplitSettingsType['crop']) => ({
+    start: crop ? formatSplitPoint(crop.start) : '',
+    end: crop ? formatSplitPoint(crop.end) : ''
+  });
+  const [cropInput, setCropInput] = useState(cropText(settings.crop));
+  const [cropError, setCropError] = useState(false);
+
+  // The crop can also be dragged on the player timeline
+  useEffect(() => {
+    setCropInput(cropText(settings.crop));
+    setCropError(false);
+  }, [settings.crop]);
   const handleStepsPerBarChange = (value: string) => {
     const num = parseInt(value);
     if (!isNaN(num) && num > 0 && num <= 64) {
@@ -23,7 +52,7 @@ export function SplitSettings({
 
   const handleMaxStepsChange = (value: string) => {
     const num = parseInt(value);
-    if (!isNaN(num) && num > 0) {
+    if (!isNaN(num) && num > 0 && num <= profile.maxStepsPerClip) {
       onSettingsChange({
         ...settings,
         maxStepsPerClip: num
@@ -40,6 +69,95 @@ export function SplitSettings({
       });
     }
   };
+
+  const handleRoundingChange = (value: string) => {
+    onSettingsChange({
+      ...settings,
+      ppqRounding: value as PpqRounding
+    });
+  };
+
+  const handleStrategyChange = (value: string) => {
+    onSettingsChange({
+      ...settings,
+      splitStrategy: value as SplitStrategy
+    });
+  };
+
+  const handleAddSplitPoint = () => {
+    const point = parseSplitPoint(splitPointInput);
+    if (!point) {
+      setSplitPointError(true);
+      return;
+    }
+    const label = formatSplitPoint(point);
+    if (!settings.splitPoints.some(p => formatSplitPoint(p) === label)) {
+      onSettingsChange({
+        ...settings,
+        splitPoints: [...settings.splitPoints, point]
+      });
+    }
+    setSplitPointInput('');
+    setSplitPointError(false);
+  };
+
+  const handleRemoveSplitPoint = (index: number) => {
+    onSettingsChange({
+      ...settings,
+      splitPoints: settings.splitPoints.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleStartOffsetBlur = (value: string) => {
+    const point = parseSplitPoint(value);
+    if (point) {
+      onSettingsChange({
+        ...settings,
+        startOffset: point
+      });
+    }
+    setStartOffsetError(!point);
+  };
+
+  // Both ends set applies the crop, both empty removes it; the end must come after the start
+  const handleCropBlur = () => {
+    if (cropInput.start.trim() === '' && cropInput.end.trim() === '') {
+      if (settings.crop) onSettingsChange({ ...settings, crop: null });
+      setCropError(false);
+      return;
+    }
+    const start = parseSplitPoint(cropInput.start);
+    const end = parseSplitPoint(cropInput.end);
+    const cropped = {
+      ...settings,
+      crop: start && end ? { start, end } : null
+    };
+    if (!getCropTicks(cropped, sourcePpq, meterMap)) {
+      setCropError(true);
+      return;
+    }
+    onSettingsChange(cropped);
+    setCropError(false);
+  };
+
+  const handleDedupeChange = (changes: Partial<DedupeSettings>) => {
+    onSettingsChange({
+      ...settings,
+      dedupe: {
+        ...settings.dedupe,
+        ...changes
+      }
+    });
+  };
+
+  const handleToleranceChange = (key: 'velocityTolerance' | 'timingTolerance', value: string) => {
+    const num = parseInt(value);
+    if (!isNaN(num) && num >= 0) {
+      handleDedupeChange({
+        [key]: num
+      });
+    }
+  };
   return <Card className="p-6">
       <div className="space-y-6">
         <div className="flex items-center gap-2">
@@ -51,26 +169,186 @@ export function SplitSettings({
           <div className="space-y-2">
             <Label htmlFor="stepsPerBar">Steps per Bar</Label>
             <Input id="stepsPerBar" type="number" min="1" max="64" value={settings.stepsPerBar} onChange={e => handleStepsPerBarChange(e.target.value)} className="font-mono" />
-            
+            <p className="text-xs text-muted-foreground">Per 4/4 bar; bars in other meters scale (e.g. 3/4 = ¾ as many)</p>
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="maxSteps">Max Steps per Clip</Label>
-            <Input id="maxSteps" type="number" min="1" value={settings.maxStepsPerClip} onChange={e => handleMaxStepsChange(e.target.value)} className="font-mono" />
-            
+            <Input id="maxSteps" type="number" min="1" max={profile.maxStepsPerClip} value={settings.maxStepsPerClip} onChange={e => handleMaxStepsChange(e.target.value)} className="font-mono" />
+            <p className="text-xs text-muted-foreground">{profile.name} holds up to {profile.maxStepsPerClip} steps</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ppq">Export PPQ (Ticks/Beat)</Label>
+            {profile.allowedPpq.length > 0 ? <Select value={String(settings.ppq)} onValueChange={handlePPQChange}>
+                <SelectTrigger id="ppq" className="font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profile.allowedPpq.map(ppq => <SelectItem key={ppq} value={String(ppq)}>{ppq}</SelectItem>)}
+                </SelectContent>
+              </Select> : <Input id="ppq" type="number" min="1" value={settings.ppq} onChange={e => handlePPQChange(e.target.value)} className="font-mono" />}
+            <p className="text-xs text-muted-foreground">
+              Source file is {sourcePpq} PPQ{settings.ppq !== sourcePpq && '; event times are rescaled'}
+            </p>
+          </div>
+        </div>
+
+        {settings.ppq !== sourcePpq && <div className="space-y-2">
+            <Label htmlFor="ppqRounding">Tick Rounding</Label>
+            <Select value={settings.ppqRounding} onValueChange={handleRoundingChange}>
+              <SelectTrigger id="ppqRounding" className="md:w-1/3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PPQ_ROUNDING_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>}
+
+        <div className="space-y-2">
+          <Label htmlFor="splitStrategy">Split Strategy</Label>
+          <Select value={settings.splitStrategy} onValueChange={handleStrategyChange}>
+            <SelectTrigger id="splitStrategy" className="md:w-1/3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SPLIT_STRATEGY_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cropStart">Crop</Label>
+          <div className="flex items-center gap-2 md:w-1/2">
+            {(['start', 'end'] as const).map(key => <Input key={key} id={key === 'start' ? 'cropStart' : 'cropEnd'} aria-label={key === 'start' ? 'Crop start' : 'Crop end'} value={cropInput[key]} placeholder={key === 'start' ? 'From, e.g. 33:1' : 'To, e.g. 65:1 or s1024'} onChange={e => setCropInput({
+            ...cropInput,
+            [key]: e.target.value
+          })} onBlur={handleCropBlur} onKeyDown={e => e.key === 'Enter' && handleCropBlur()} className={`font-mono ${cropError ? 'border-destructive' : ''}`} />)}
+            {settings.crop && <Button variant="outline" size="icon" onClick={() => onSettingsChange({
+            ...settings,
+            crop: null
+          })} aria-label="Clear crop">
+                <X className="h-4 w-4" />
+              </Button>}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Export only this window (end exclusive); notes are cut at its edges like at a clip boundary. You can also drag on the preview timeline.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="startMode">Start From</Label>
+            <Select value={settings.startMode} disabled={settings.crop !== null} onValueChange={value => onSettingsChange({
+            ...settings,
+            startMode: value as StartMode
+          })}>
+              <SelectTrigger id="startMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(START_MODE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.startMode === 'offset' && <div className="space-y-2">
+              <Label htmlFor="startOffset">Start Position</Label>
+              <Input id="startOffset" key={formatSplitPoint(settings.startOffset)} defaultValue={formatSplitPoint(settings.startOffset)} placeholder="3:1 (bar:beat) or s32 (step)" onBlur={e => handleStartOffsetBlur(e.target.value)} className={`font-mono ${startOffsetError ? 'border-destructive' : ''}`} />
+            </div>}
+          <div className="flex items-end gap-2 pb-2">
+            <Checkbox id="skipEmptyClips" checked={settings.skipEmptyClips} onCheckedChange={checked => onSettingsChange({
+            ...settings,
+            skipEmptyClips: checked === true
+          })} />
+            <Label htmlFor="skipEmptyClips">Skip clips without notes</Label>
           </div>
+        </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="space-y-2">
-            <Label htmlFor="ppq">PPQ (Ticks/Beat)</Label>
-            <Input id="ppq" type="number" min="1" value={settings.ppq} onChange={e => handlePPQChange(e.target.value)} className="font-mono" />
-            
+            <Label htmlFor="clipLength">Clip Length</Label>
+            <Select value={settings.clipLength} onValueChange={value => onSettingsChange({
+            ...settings,
+            clipLength: value as ClipLengthMode
+          })}>
+              <SelectTrigger id="clipLength">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CLIP_LENGTH_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.clipLength !== 'range' && <div className="space-y-2">
+              <Label htmlFor="finalClip">Last Clip</Label>
+              <Select value={settings.finalClip} onValueChange={value => onSettingsChange({
+            ...settings,
+            finalClip: value as FinalClipMode
+          })}>
+                <SelectTrigger id="finalClip">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FINAL_CLIP_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>}
+          <p className="text-xs text-muted-foreground md:col-span-3">Each file ends exactly at its clip length, so the device loops it at that length</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="splitPoint">Split Points</Label>
+          <div className="flex gap-2 md:w-1/2">
+            <Input id="splitPoint" value={splitPointInput} placeholder="9:1 (bar:beat) or s128 (step)" onChange={e => {
+            setSplitPointInput(e.target.value);
+            setSplitPointError(false);
+          }} onKeyDown={e => e.key === 'Enter' && handleAddSplitPoint()} className={`font-mono ${splitPointError ? 'border-destructive' : ''}`} />
+            <Button variant="outline" size="icon" onClick={handleAddSplitPoint} aria-label="Add split point">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {settings.splitPoints.length > 0 && <div className="flex flex-wrap gap-2">
+              {settings.splitPoints.map((point, index) => <Badge key={formatSplitPoint(point)} variant="secondary" className="font-mono gap-1">
+                  {formatSplitPoint(point)}
+                  <button onClick={() => handleRemoveSplitPoint(index)} aria-label={`Remove split point ${formatSplitPoint(point)}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>)}
+            </div>}
+          <p className="text-xs text-muted-foreground">Clips never cross a split point; long sections are still cut at the max step count</p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Checkbox id="dedupe" checked={settings.dedupe.enabled} onCheckedChange={checked => handleDedupeChange({
+            enabled: checked === true
+          })} />
+            <Label htmlFor="dedupe">Export unique patterns only (with song chain)</Label>
           </div>
+          {settings.dedupe.enabled && <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pl-6">
+              <div className="flex items-center gap-2">
+                <Checkbox id="matchTransposed" checked={settings.dedupe.matchTransposed} onCheckedChange={checked => handleDedupeChange({
+              matchTransposed: checked === true
+            })} />
+                <Label htmlFor="matchTransposed">Match transposed clips</Label>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="velocityTolerance">Velocity Tolerance</Label>
+                <Input id="velocityTolerance" type="number" min="0" max="127" value={settings.dedupe.velocityTolerance} onChange={e => handleToleranceChange('velocityTolerance', e.target.value)} className="font-mono" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timingTolerance">Timing Tolerance (ticks)</Label>
+                <Input id="timingTolerance" type="number" min="0" value={settings.dedupe.timingTolerance} onChange={e => handleToleranceChange('timingTolerance', e.target.value)} className="font-mono" />
+              </div>
+            </div>}
         </div>
 
         <div className="p-4 bg-accent/30 rounded-lg border border-border">
           <p className="text-sm text-muted-foreground">
-            Patterns longer than {settings.maxStepsPerClip} steps will be automatically split into multiple clips.
-            Each clip will be exported as a separate .mid file (e.g., A_1.mid, A_2.mid).
+            Patterns longer than {settings.maxStepsPerClip} steps will be automatically split into multiple clips
+            ({SPLIT_STRATEGY_LABELS[settings.splitStrategy].toLowerCase()}).
+            Each clip will be exported as a separate .mid file (e.g., {formatClipPath(profile, profile.outputs[0], 1)}, {formatClipPath(profile, profile.outputs[0], 2)}).
           </p>
         </div>
       </div>
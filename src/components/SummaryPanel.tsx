@@ -1,21 +1,97 @@
+import { useMemo } from 'react';
 import { AlertTriangle, CheckCircle2, Info } from 'lucide-react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Alert, AlertDescription } from './ui/alert';
-import type { OutputTrackConfig, ParsedMIDI, SplitSettings } from '@/lib/midi/types';
+import type { DeviceProfile, ExportSettings, MIDIEvent, OutputTrackConfig, ParsedMIDI, PlayableRangeReport, PolyphonyReport, SplitSettings, TiedNoteReport, VelocityReport } from '@/lib/midi/types';
 import { calculateSteps } from '@/lib/midi/parser';
+import { formatBarBeat, ticksToBarBeat } from '@/lib/midi/meter';
+import { collectMarkerTicks, formatNoteName, getPeakPolyphony, getStartTicks } from '@/lib/midi/transform';
+import { getOutputLimits } from '@/lib/midi/profiles';
+import { GM_DRUM_NOTES } from '@/lib/midi/gm-drums';
+import { getSharedClipRanges, processOutput, type ProcessedOutput } from '@/lib/midi/pipeline';
+import { EXPORT_FORMAT_LABELS, VELOCITY_BUCKET_SIZE } from '@/lib/midi/constants';
+function formatTiedNoteReport(report: TiedNoteReport): string {
+  const parts = [
+    report.retriggered > 0 && `${report.retriggered} re-triggered`,
+    report.truncated > 0 && `${report.truncated} truncated`,
+    report.extended > 0 && `${report.extended} extended`,
+    report.dropped > 0 && `${report.dropped} dropped`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+function formatRangeFit(report: PlayableRangeReport): string {
+  const parts = [
+    report.transpose !== 0 && `transposed ${report.transpose > 0 ? '+' : ''}${report.transpose}`,
+    report.transpose === 0 && report.moved > 0 && `${report.moved} moved`,
+    report.dropped > 0 && `${report.dropped} dropped`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+function formatPolyphonyReport(report: PolyphonyReport): string {
+  const parts = [
+    report.shortened > 0 && `${report.shortened} cut short`,
+    report.dropped > 0 && `${report.dropped} dropped`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+// Before/after noteOn counts per velocity bucket
+function VelocityHistogram({ report }: { report: VelocityReport }) {
+  const data = report.before.map((before, i) => ({
+    velocity: i * VELOCITY_BUCKET_SIZE,
+    before,
+    after: report.after[i],
+  }));
+  return <div className="h-24 mt-1">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} barGap={0} barCategoryGap={1}>
+          <XAxis dataKey="velocity" tick={{ fontSize: 10 }} interval={3} tickLine={false} />
+          <Tooltip labelFormatter={velocity => `Velocity ${velocity}–${Number(velocity) + VELOCITY_BUCKET_SIZE - 1}`} contentStyle={{ fontSize: 12 }} />
+          <Bar dataKey="before" name="Before" fill="hsl(var(--muted-foreground))" isAnimationActive={false} />
+          <Bar dataKey="after" name="After" fill="hsl(var(--primary))" isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>;
+}
 interface SummaryPanelProps {
   parsedMidi: ParsedMIDI;
+  profile: DeviceProfile;
   configs: Map<string, OutputTrackConfig>;
   settings: SplitSettings;
+  exportSettings: ExportSettings;
 }
 export function SummaryPanel({
   parsedMidi,
+  profile,
   configs,
-  settings
+  settings,
+  exportSettings
 }: SummaryPanelProps) {
-  const totalSteps = calculateSteps(parsedMidi.duration, settings.ppq, settings.stepsPerBar);
-  const clipsNeeded = Math.ceil(totalSteps / settings.maxStepsPerClip);
+  const totalSteps = calculateSteps(parsedMidi.duration, parsedMidi.header.ppq, settings.stepsPerBar);
+  const outputs = useMemo(() => {
+    const markerTicks = collectMarkerTicks(parsedMidi.tracks);
+    // Same boundaries for every output when they are written side by side, as in the export
+    const sharedRanges = exportSettings.format === 'multiTrack'
+      ? getSharedClipRanges(parsedMidi, Array.from(configs.values()), settings, markerTicks)
+      : undefined;
+    const processed = new Map<string, ProcessedOutput>();
+    configs.forEach((config, trackId) => {
+      processed.set(trackId, processOutput(parsedMidi, config, settings, markerTicks, sharedRanges));
+    });
+    return processed;
+  }, [parsedMidi, configs, settings, exportSettings.format]);
+  // Multi-track files hold every output's clip at one split index, so repeats are not collapsed
+  const isMultiTrack = exportSettings.format === 'multiTrack';
+  const isWritten = (clip: MIDIEvent[] | undefined) => !!clip && (!settings.skipEmptyClips || clip.some(event => event.type === 'noteOn'));
+  const clipCount = Math.max(0, ...Array.from(outputs.values()).map(output => output.clips.length));
+  const totalFiles = isMultiTrack
+    ? Array.from({ length: clipCount }, (_, i) => i).filter(i => Array.from(outputs.values()).some(output => isWritten(output.clips[i]))).length
+    : Array.from(outputs.values()).reduce((sum, output) => sum + output.repeats.patterns.filter(clipIndex => isWritten(output.clips[clipIndex])).length, 0);
+  const startTicks = getStartTicks(parsedMidi.tracks, settings, parsedMidi.header.ppq, parsedMidi.meterMap);
+  const endPosition = ticksToBarBeat(parsedMidi.duration, parsedMidi.meterMap, parsedMidi.header.ppq);
+  const totalBars = endPosition.bar + (endPosition.beat > 0 || endPosition.tick > 0 ? 1 : 0);
+  const meterLabel = parsedMidi.meterMap.map(m => `${m.numerator}/${m.denominator}${parsedMidi.meterMap.length > 1 ? ` @ bar ${m.bar + 1}` : ''}`).join(', ');
   const hasMultipleTracks = configs.size > 0;
   return <Card className="p-6">
       <div className="space-y-6">
@@ -28,20 +104,86 @@ export function SummaryPanel({
 
         {hasMultipleTracks ? <>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {Array.from(configs.entries()).map(([trackId, config]) => <div key={trackId} className="p-4 bg-accent/30 rounded-lg border border-border">
-                  <div className="text-sm text-muted-foreground mb-1">Track {trackId}</div>
+              {profile.outputs.filter(output => configs.has(output.id)).map(output => {
+            const trackId = output.id;
+            const config = configs.get(trackId)!;
+            const ranges = outputs.get(trackId)?.ranges || [];
+            const uniqueCount = outputs.get(trackId)?.repeats.patterns.length ?? 0;
+            const reports = outputs.get(trackId)?.reports;
+            const events = outputs.get(trackId)?.events || [];
+            const overruns = outputs.get(trackId)?.overruns || [];
+            const emptyCount = (outputs.get(trackId)?.clips || []).filter(clip => !clip.some(event => event.type === 'noteOn')).length;
+            const limits = getOutputLimits(profile, trackId);
+            const outOfRange = events.filter(e => e.type === 'noteOn' && (e.note! < limits.noteRange.min || e.note! > limits.noteRange.max)).length;
+            const peakPolyphony = reports?.polyphony?.peakAfter ?? getPeakPolyphony(events);
+            return <div key={trackId} className="p-4 bg-accent/30 rounded-lg border border-border">
+                  <div className="text-sm text-muted-foreground mb-1">{output.name}</div>
                   <div className="text-2xl font-bold text-primary mb-2">
-                    {clipsNeeded}
+                    {ranges.length}
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    {clipsNeeded === 1 ? 'clip' : 'clips'}
+                    {ranges.length === 1 ? 'clip' : 'clips'}
+                    {settings.dedupe.enabled && !isMultiTrack && ranges.length > 1 && ` · ${uniqueCount} unique`}
+                    {emptyCount > 0 && ` · ${emptyCount} empty${settings.skipEmptyClips ? ', skipped' : ''}`}
                   </div>
+                  {ranges.length > 1 && <div className="mt-2 text-xs font-mono text-muted-foreground break-words">
+                      {ranges.map(r => formatBarBeat(r.start, parsedMidi.meterMap, parsedMidi.header.ppq)).join(' · ')}
+                    </div>}
                   <div className="mt-2 pt-2 border-t border-border">
                     <div className="text-xs text-muted-foreground">
                       {config.sourceTracks.length} source {config.sourceTracks.length === 1 ? 'track' : 'tracks'}
                     </div>
+                    {reports?.sustain && <div className="text-xs text-muted-foreground">
+                        Sustain: {reports.sustain.extended} notes extended, {reports.sustain.pedalEvents} pedal events removed
+                      </div>}
+                    {reports?.playableRange && <div className="text-xs text-muted-foreground">
+                        Range: {reports.playableRange.outsideBefore} → {reports.playableRange.outsideAfter} notes outside
+                        {formatRangeFit(reports.playableRange)}
+                      </div>}
+                    {reports?.velocity && <div className="text-xs text-muted-foreground">
+                        Velocity: {reports.velocity.dropped} ghost notes dropped, {reports.velocity.accents} accents
+                        <VelocityHistogram report={reports.velocity} />
+                      </div>}
+                    <div className="text-xs text-muted-foreground">
+                      Peak polyphony: {reports?.polyphony && reports.polyphony.peakBefore !== peakPolyphony && `${reports.polyphony.peakBefore} → `}{peakPolyphony}
+                      {reports?.polyphony && formatPolyphonyReport(reports.polyphony)}
+                    </div>
+                    {reports?.quantize && <div className="text-xs text-muted-foreground">
+                        Quantize: {reports.quantize.notesMoved} notes moved
+                        {reports.quantize.notesMoved > 0 && ` (avg ${Math.round(reports.quantize.averageShift)}, max ${reports.quantize.maxShift} ticks)`}
+                      </div>}
+                    {reports?.tiedNotes && <div className="text-xs text-muted-foreground">
+                        Tied notes: {formatTiedNoteReport(reports.tiedNotes)}
+                      </div>}
+                    {reports?.drumMap && <div className="text-xs text-muted-foreground">
+                        Drum map: {reports.drumMap.mapped} notes mapped
+                        {reports.drumMap.dropped > 0 && `, ${reports.drumMap.dropped} dropped`}
+                      </div>}
+                    {reports?.drumMap && reports.drumMap.unmapped.length > 0 && <div className="text-xs text-destructive flex items-start gap-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                        <span>
+                          {config.drumMap?.dropUnmapped ? 'Dropped' : 'Unmapped'}: {reports.drumMap.unmapped.map(note => GM_DRUM_NOTES[note] ? `${note} ${GM_DRUM_NOTES[note]}` : String(note)).join(', ')}
+                        </span>
+                      </div>}
+                    {overruns.length > 0 && <div className="text-xs text-destructive flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {overruns.length} {overruns.length === 1 ? 'clip runs' : 'clips run'} past {overruns.length === 1 ? 'its' : 'their'} loop length
+                      </div>}
+                    {reports?.resample && reports.resample.collisions > 0 && <div className="text-xs text-destructive flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {reports.resample.collisions} events merged onto one tick at {settings.ppq} PPQ
+                      </div>}
+                    {outOfRange > 0 && <div className="text-xs text-destructive flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {outOfRange} notes outside {formatNoteName(limits.noteRange.min)}–{formatNoteName(limits.noteRange.max)}
+                      </div>}
+                    {limits.maxPolyphony !== undefined && peakPolyphony > limits.maxPolyphony && <div className="text-xs text-destructive flex items-center gap-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        {peakPolyphony} voices at once (device plays {limits.maxPolyphony})
+                      </div>}
                   </div>
-                </div>)}
+                </div>;
+          })}
             </div>
 
             <div className="space-y-2">
@@ -49,15 +191,37 @@ export function SummaryPanel({
                 <span className="text-muted-foreground">Total Steps:</span>
                 <span className="font-mono font-semibold">{totalSteps}</span>
               </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Start:</span>
+                <span className="font-mono font-semibold">Bar {formatBarBeat(startTicks, parsedMidi.meterMap, parsedMidi.header.ppq)}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Total Bars:</span>
+                <span className="font-mono font-semibold">{totalBars}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Time Signature:</span>
+                <span className="font-mono font-semibold">{meterLabel}</span>
+              </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Total Files:</span>
                 <span className="font-mono font-semibold">
-                  {configs.size * clipsNeeded} MIDI + README + metadata.json
+                  {totalFiles} MIDI + README + metadata.json
                 </span>
               </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">PPQ:</span>
+                <span className="font-mono font-semibold">
+                  {parsedMidi.header.ppq === settings.ppq ? settings.ppq : `${parsedMidi.header.ppq} → ${settings.ppq}`}
+                </span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Device:</span>
+                <span className="font-mono font-semibold">{profile.name}</span>
+              </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Output Format:</span>
-                <span className="font-mono font-semibold">SMF Type 1</span>
+                <span className="font-mono font-semibold">{EXPORT_FORMAT_LABELS[exportSettings.format]}</span>
               </div>
             </div>
 
@@ -65,7 +229,7 @@ export function SummaryPanel({
           </> : <Alert variant="default">
             <Info className="h-4 w-4" />
             <AlertDescription>
-              Assign tracks to outputs A, B, C, or D to see the export summary
+              Assign tracks to {profile.outputs.map(output => output.name).join(', ')} to see the export summary
             </AlertDescription>
           </Alert>}
       </div>
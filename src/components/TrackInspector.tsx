@@ -1,29 +1,46 @@
 import { useState, useEffect } from 'react';
-import { Music, Volume2, VolumeX } from 'lucide-react';
+import { Drum, Merge, Music, Split, Volume2, VolumeX } from 'lucide-react';
 import { Card } from './ui/card';
 import { Checkbox } from './ui/checkbox';
 import { Button } from './ui/button';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Badge } from './ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
-import type { MIDITrack, OutputTrackConfig } from '@/lib/midi/types';
+import { OutputOptions } from './OutputOptions';
+import type { DeviceOutput, DrumMap, MIDITrack, NoteRange, OutputTrackConfig } from '@/lib/midi/types';
+import { formatNoteName } from '@/lib/midi/transform';
 
 interface TrackInspectorProps {
   tracks: MIDITrack[];
+  outputs: DeviceOutput[];
+  deviceNoteRange: NoteRange;
+  deviceMaxPolyphony?: number;
+  drumMaps: DrumMap[];
   configs: Map<string, OutputTrackConfig>;
   onConfigChange: (configs: Map<string, OutputTrackConfig>) => void;
   trackStates?: Map<number, { muted: boolean; solo: boolean }>;
   onToggleMute?: (trackIndex: number) => void;
   onToggleSolo?: (trackIndex: number) => void;
+  explodedTracks?: Set<number>;
+  onToggleExplode?: (sourceIndex: number) => void;
+  drumExplodedTracks?: Set<number>;
+  onToggleDrumExplode?: (sourceIndex: number) => void;
 }
 
 export function TrackInspector({ 
   tracks, 
+  outputs,
+  deviceNoteRange,
+  deviceMaxPolyphony,
+  drumMaps,
   configs, 
   onConfigChange,
   trackStates,
   onToggleMute,
   onToggleSolo,
+  explodedTracks,
+  onToggleExplode,
+  drumExplodedTracks,
+  onToggleDrumExplode,
 }: TrackInspectorProps) {
   const [selectedTracks, setSelectedTracks] = useState<Set<number>>(
     new Set(tracks.map((_, i) => i))
@@ -38,48 +55,51 @@ export function TrackInspector({
     const newSelected = new Set(selectedTracks);
     if (newSelected.has(trackIndex)) {
       newSelected.delete(trackIndex);
-      // Remove from any assignment when deselected
-      handleAssignmentChange(trackIndex, 'None');
+      // Remove from every output when deselected
+      removeFromOutputs(trackIndex);
     } else {
       newSelected.add(trackIndex);
     }
     setSelectedTracks(newSelected);
   };
 
-  const handleAssignmentChange = (trackIndex: number, outputId: string) => {
-    const newConfigs = new Map(configs);
-    
-    // Remove track from all existing configs
-    newConfigs.forEach((config, key) => {
-      config.sourceTracks = config.sourceTracks.filter(t => t !== trackIndex);
-      if (config.sourceTracks.length === 0) {
-        newConfigs.delete(key);
+  const removeFromOutputs = (trackIndex: number) => {
+    const newConfigs = new Map<string, OutputTrackConfig>();
+    configs.forEach((config, key) => {
+      const sourceTracks = config.sourceTracks.filter(t => t !== trackIndex);
+      if (sourceTracks.length > 0) {
+        newConfigs.set(key, { ...config, sourceTracks });
       }
     });
-
-    // Add to new assignment if not "None"
-    if (outputId !== 'None') {
-      const outputKey = outputId as 'A' | 'B' | 'C' | 'D';
-      if (!newConfigs.has(outputKey)) {
-        newConfigs.set(outputKey, {
-          outputId: outputKey,
-          sourceTracks: [],
-          stripProgramChange: false,
-        });
-      }
-      newConfigs.get(outputKey)!.sourceTracks.push(trackIndex);
-    }
-
     onConfigChange(newConfigs);
   };
 
-  const getAssignment = (trackIndex: number): string => {
-    for (const [key, config] of configs.entries()) {
-      if (config.sourceTracks.includes(trackIndex)) {
-        return key;
+  // A source track can feed several outputs (e.g. a keyboard split), so
+  // each output is toggled on its own
+  const handleAssignmentToggle = (trackIndex: number, outputId: string) => {
+    const newConfigs = new Map(configs);
+    const config = configs.get(outputId);
+
+    if (!config) {
+      const midiChannel = outputs.find(output => output.id === outputId)?.midiChannel;
+      newConfigs.set(outputId, {
+        outputId,
+        sourceTracks: [trackIndex],
+        stripProgramChange: false,
+        outputChannel: midiChannel !== undefined ? midiChannel - 1 : undefined,
+      });
+    } else if (config.sourceTracks.includes(trackIndex)) {
+      const sourceTracks = config.sourceTracks.filter(t => t !== trackIndex);
+      if (sourceTracks.length > 0) {
+        newConfigs.set(outputId, { ...config, sourceTracks });
+      } else {
+        newConfigs.delete(outputId);
       }
+    } else {
+      newConfigs.set(outputId, { ...config, sourceTracks: [...config.sourceTracks, trackIndex] });
     }
-    return 'None';
+
+    onConfigChange(newConfigs);
   };
 
   return (
@@ -100,14 +120,19 @@ export function TrackInspector({
             <TableRow>
               <TableHead className="w-[60px]">Include</TableHead>
               <TableHead>Track Name</TableHead>
-              <TableHead>Events (Notes)</TableHead>
+              <TableHead>Events (Range)</TableHead>
               <TableHead className="text-center w-[120px]">M / S</TableHead>
-              <TableHead>Assign to</TableHead>
+              <TableHead>Outputs</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {tracks.map((track) => {
-              const trackState = trackStates?.get(track.index) || { muted: false, solo: false };
+              // Playback runs on the parsed tracks, so mute/solo target the source track
+              const sourceIndex = track.sourceIndex ?? track.index;
+              const trackState = trackStates?.get(sourceIndex) || { muted: false, solo: false };
+              const isExploded = explodedTracks?.has(sourceIndex) ?? false;
+              const canExplode = track.channels.size > 1 && track.drumLane === undefined;
+              const isDrumExploded = drumExplodedTracks?.has(sourceIndex) ?? false;
               return (
                 <TableRow key={track.index}>
                   <TableCell>
@@ -119,14 +144,43 @@ export function TrackInspector({
                   </TableCell>
 
                   <TableCell className="font-medium">
-                    {track.name}
+                    <div className="flex items-center gap-2">
+                      <span>{track.name}</span>
+                      {track.channels.size > 0 && (
+                        <Badge variant="outline" className="font-mono text-xs">
+                          Ch {Array.from(track.channels).sort((a, b) => a - b).map(c => c + 1).join(', ')}
+                        </Badge>
+                      )}
+                      {onToggleExplode && (canExplode || isExploded) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => onToggleExplode(sourceIndex)}
+                          title={isExploded ? 'Merge channels back into one track' : 'Explode by channel'}
+                        >
+                          {isExploded ? <Merge className="h-4 w-4" /> : <Split className="h-4 w-4" />}
+                        </Button>
+                      )}
+                      {onToggleDrumExplode && track.isDrums && (
+                        <Button
+                          variant={isDrumExploded ? 'secondary' : 'ghost'}
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => onToggleDrumExplode(sourceIndex)}
+                          title={isDrumExploded ? 'Merge drum lanes back into one track' : 'Explode into drum lanes'}
+                        >
+                          <Drum className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
                   </TableCell>
 
                   <TableCell className="text-muted-foreground">
                     {track.eventCount.toLocaleString()}
                     {track.noteRange && (
                       <span className="text-xs ml-1">
-                        ({Math.round((track.noteRange.min + track.noteRange.max) / 2)})
+                        ({formatNoteName(track.noteRange.min)}–{formatNoteName(track.noteRange.max)})
                       </span>
                     )}
                   </TableCell>
@@ -137,7 +191,7 @@ export function TrackInspector({
                         variant={trackState.muted ? 'default' : 'outline'}
                         size="icon"
                         className="h-8 w-8"
-                        onClick={() => onToggleMute?.(track.index)}
+                        onClick={() => onToggleMute?.(sourceIndex)}
                         disabled={!onToggleMute}
                       >
                         {trackState.muted ? (
@@ -150,7 +204,7 @@ export function TrackInspector({
                         variant={trackState.solo ? 'default' : 'outline'}
                         size="icon"
                         className="h-8 w-8 font-semibold"
-                        onClick={() => onToggleSolo?.(track.index)}
+                        onClick={() => onToggleSolo?.(sourceIndex)}
                         disabled={!onToggleSolo}
                       >
                         S
@@ -159,28 +213,33 @@ export function TrackInspector({
                   </TableCell>
 
                   <TableCell>
-                    <Select
-                      value={getAssignment(track.index)}
-                      onValueChange={(value) => handleAssignmentChange(track.index, value)}
-                      disabled={!selectedTracks.has(track.index)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="None">None</SelectItem>
-                        <SelectItem value="A">Track A</SelectItem>
-                        <SelectItem value="B">Track B</SelectItem>
-                        <SelectItem value="C">Track C</SelectItem>
-                        <SelectItem value="D">Track D</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <div className="flex flex-wrap gap-1">
+                      {outputs.map(output => {
+                        const isAssigned = configs.get(output.id)?.sourceTracks.includes(track.index) ?? false;
+                        return (
+                          <Button
+                            key={output.id}
+                            variant={isAssigned ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-8 min-w-8 px-2 font-mono"
+                            onClick={() => handleAssignmentToggle(track.index, output.id)}
+                            disabled={!selectedTracks.has(track.index)}
+                            title={output.name}
+                            aria-pressed={isAssigned}
+                          >
+                            {output.id}
+                          </Button>
+                        );
+                      })}
+                    </div>
                   </TableCell>
                 </TableRow>
               );
             })}
           </TableBody>
         </Table>
+
+        <OutputOptions outputs={outputs} deviceNoteRange={deviceNoteRange} deviceMaxPolyphony={deviceMaxPolyphony} drumMaps={drumMaps} configs={configs} onConfigChange={onConfigChange} />
       </div>
     </Card>
   );
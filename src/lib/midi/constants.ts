@@ -3,5 +3,164 @@
 export const DEFAULT_BPM = 120;
 export const DEFAULT_STEPS_PER_BAR = 16;
 export const DEFAULT_MAX_STEPS = 128;
-export const TIME_SIGNATURE_NUMERATOR = 4; // 4/4 time
+export const QUARTERS_PER_WHOLE_NOTE = 4; // steps are a fraction of a whole note (a 4/4 bar)
+export const DEFAULT_TIME_SIGNATURE = { numerator: 4, denominator: 4 };
 export const DRUM_CHANNEL = 9; // MIDI channel 10 (0-indexed)
+export const SUSTAIN_CONTROLLER = 64; // damper pedal, down at 64 and above
+export const SOSTENUTO_CONTROLLER = 66;
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export const DEFAULT_QUANTIZE = {
+  enabled: false,
+  gridDivision: 1,
+  strength: 100,
+  swing: 0,
+  quantizeLength: false,
+  window: 100,
+} as const;
+
+export const DEFAULT_CHASE = {
+  enabled: false,
+  controllers: [] as number[],
+  pitchBend: true,
+  program: true,
+};
+
+export const DEFAULT_NOTE_FILTER = {
+  enabled: false,
+  low: 0,
+  high: 127,
+  transpose: 0,
+};
+
+export const DEFAULT_SUSTAIN = {
+  enabled: false,
+  sostenuto: false,
+};
+
+export const DEFAULT_TIED_NOTES = {
+  policy: 'retrigger',
+  dropWindowTicks: 0,
+} as const;
+
+export const EXPORT_FORMAT_LABELS = {
+  type0: 'SMF type 0, one file per clip',
+  type1: 'SMF type 1, one file per clip',
+  multiTrack: 'SMF type 1, all outputs per clip',
+} as const;
+
+export const TIED_NOTE_POLICY_LABELS = {
+  retrigger: 'Re-trigger in next clip',
+  truncate: 'Truncate at boundary',
+  extend: 'Extend past clip end',
+  dropLate: 'Drop late-starting notes',
+} as const;
+
+export const DEFAULT_POLYPHONY = {
+  enabled: false,
+  maxVoices: 1,
+  steal: 'last',
+  legato: false,
+} as const;
+
+export const VOICE_STEAL_LABELS = {
+  last: 'Newest note wins',
+  first: 'Held note wins',
+  highest: 'Highest note wins',
+  lowest: 'Lowest note wins',
+} as const;
+
+export const DEFAULT_VELOCITY = {
+  enabled: false,
+  mode: 'keep',
+  fixed: 100,
+  scale: 100,
+  offset: 0,
+  low: 64,
+  high: 110,
+  amount: 100,
+  curve: 'soft',
+  ghostThreshold: 0,
+  accent: {
+    enabled: false,
+    threshold: 110,
+    target: 'cc',
+    controller: 16,
+    note: 0,
+  },
+} as const;
+
+export const VELOCITY_BUCKET_SIZE = 8;
+
+export const VELOCITY_MODE_LABELS = {
+  keep: 'Keep source velocity',
+  fixed: 'Fixed velocity',
+  scale: 'Scale and offset',
+  compress: 'Compress into range',
+  curve: 'Curve preset',
+} as const;
+
+export const VELOCITY_CURVE_LABELS = {
+  soft: 'Soft (boost quiet notes)',
+  hard: 'Hard (favour loud notes)',
+  sCurve: 'S-curve (push to extremes)',
+} as const;
+
+export const RANGE_FIT_MODE_LABELS = {
+  fold: 'Fold by octaves into range',
+  clamp: 'Clamp to nearest edge',
+  drop: 'Drop out-of-range notes',
+  transpose: 'Transpose whole part by octaves',
+} as const;
+
+export const PPQ_ROUNDING_LABELS = {
+  nearest: 'Nearest tick',
+  down: 'Round down (earlier)',
+  up: 'Round up (later)',
+} as const;
+
+export const CLIP_LENGTH_LABELS = {
+  range: 'Clip contents (rounded to a step)',
+  maxSteps: 'Always max steps',
+  bars: 'Rounded up to whole bars',
+} as const;
+
+export const FINAL_CLIP_LABELS = {
+  pad: 'Pad to clip length',
+  trim: 'Trim to last note',
+} as const;
+
+export const START_MODE_LABELS = {
+  songStart: 'Song start',
+  offset: 'Fixed offset',
+  firstNote: 'Bar of the first note',
+} as const;
+
+export const SPLIT_STRATEGY_LABELS = {
+  fixed: 'Fixed step count',
+  bars: 'Whole bars',
+  minHeldNotes: 'Fewest held notes',
+  markers: 'Markers / cue points',
+} as const;
+
+// SMF meta event type bytes (0xFF <type> <length> <data>)
+export const META_TYPE_NAMES: Record<number, string> = {
+  0x00: 'sequenceNumber',
+  0x01: 'text',
+  0x02: 'copyright',
+  0x03: 'trackName',
+  0x04: 'instrumentName',
+  0x05: 'lyrics',
+  0x06: 'marker',
+  0x07: 'cuePoint',
+  0x08: 'programName',
+  0x09: 'deviceName',
+  0x20: 'channelPrefix',
+  0x21: 'portPrefix',
+  0x2f: 'endOfTrack',
+  0x51: 'setTempo',
+  0x54: 'smpteOffset',
+  0x58: 'timeSignature',
+  0x59: 'keySignature',
+  0x7f: 'sequencerSpecific',
+};
@@ -0,0 +1,173 @@
+// General MIDI percussion key map (channel 10, notes 35-81)
+// Based on General MIDI Level 1 Percussion Key Map
+
+import type { DrumLane, DrumMap } from './types';
+
+export const GM_DRUM_NOTES: Record<number, string> = {
+  35: 'Acoustic Bass Drum',
+  36: 'Bass Drum 1',
+  37: 'Side Stick',
+  38: 'Acoustic Snare',
+  39: 'Hand Clap',
+  40: 'Electric Snare',
+  41: 'Low Floor Tom',
+  42: 'Closed Hi-Hat',
+  43: 'High Floor Tom',
+  44: 'Pedal Hi-Hat',
+  45: 'Low Tom',
+  46: 'Open Hi-Hat',
+  47: 'Low-Mid Tom',
+  48: 'Hi-Mid Tom',
+  49: 'Crash Cymbal 1',
+  50: 'High Tom',
+  51: 'Ride Cymbal 1',
+  52: 'Chinese Cymbal',
+  53: 'Ride Bell',
+  54: 'Tambourine',
+  55: 'Splash Cymbal',
+  56: 'Cowbell',
+  57: 'Crash Cymbal 2',
+  58: 'Vibraslap',
+  59: 'Ride Cymbal 2',
+  60: 'Hi Bongo',
+  61: 'Low Bongo',
+  62: 'Mute Hi Conga',
+  63: 'Open Hi Conga',
+  64: 'Low Conga',
+  65: 'High Timbale',
+  66: 'Low Timbale',
+  67: 'High Agogo',
+  68: 'Low Agogo',
+  69: 'Cabasa',
+  70: 'Maracas',
+  71: 'Short Whistle',
+  72: 'Long Whistle',
+  73: 'Short Guiro',
+  74: 'Long Guiro',
+  75: 'Claves',
+  76: 'Hi Wood Block',
+  77: 'Low Wood Block',
+  78: 'Mute Cuica',
+  79: 'Open Cuica',
+  80: 'Mute Triangle',
+  81: 'Open Triangle',
+};
+
+// Lanes for exploding a drum track; percussion takes everything else
+export const DEFAULT_DRUM_LANES: DrumLane[] = [
+  { id: 'kick', name: 'Kick', notes: [35, 36] },
+  { id: 'snare', name: 'Snare', notes: [37, 38, 39, 40] },
+  { id: 'hats', name: 'Hats', notes: [42, 44, 46] },
+  { id: 'toms', name: 'Toms', notes: [41, 43, 45, 47, 48, 50] },
+  { id: 'cymbals', name: 'Cymbals', notes: [49, 51, 52, 53, 55, 57, 59] },
+  { id: 'percussion', name: 'Percussion', notes: [] },
+];
+
+export function getDrumNoteName(note: number): string {
+  return GM_DRUM_NOTES[note] || `Note ${note}`;
+}
+
+/** The lane a note belongs to: the first lane listing it, else the first catch-all lane. */
+export function getDrumLane(note: number, lanes: DrumLane[]): DrumLane | undefined {
+  return lanes.find(lane => lane.notes.includes(note)) ?? lanes.find(lane => lane.notes.length === 0);
+}
+
+// Builds a note table from [target, source notes] pairs
+const kit = (pads: [number, number[]][]): Record<number, number> =>
+  Object.fromEntries(pads.flatMap(([target, sources]) => sources.map(source => [source, target])));
+
+export const BUILT_IN_DRUM_MAPS: DrumMap[] = [
+  {
+    id: 'chromatic-c1',
+    name: 'Chromatic kit from C1 (24–34)',
+    builtIn: true,
+    notes: kit([
+      [24, [35, 36]], // kick
+      [25, [37]], // rim
+      [26, [38, 40]], // snare
+      [27, [39]], // clap
+      [28, [41, 43, 45]], // low tom
+      [29, [47, 48]], // mid tom
+      [30, [50]], // high tom
+      [31, [42, 44]], // closed hat
+      [32, [46]], // open hat
+      [33, [49, 52, 55, 57]], // crash
+      [34, [51, 53, 59]], // ride
+    ]),
+  },
+  {
+    id: 'pads-36-47',
+    name: '12-pad kit (36–47)',
+    builtIn: true,
+    notes: kit([
+      [36, [35, 36]], // kick
+      [37, [38, 40]], // snare
+      [38, [37]], // rim
+      [39, [39]], // clap
+      [40, [42, 44]], // closed hat
+      [41, [46]], // open hat
+      [42, [41, 43, 45]], // low tom
+      [43, [47, 48]], // mid tom
+      [44, [50]], // high tom
+      [45, [49, 52, 55, 57]], // crash
+      [46, [51, 53, 59]], // ride
+      [47, [56]], // cowbell
+    ]),
+  },
+  {
+    id: 'pads-36-43',
+    name: '8-voice kit (36–43)',
+    builtIn: true,
+    notes: kit([
+      [36, [35, 36]], // kick
+      [37, [37, 38, 40]], // snare
+      [38, [39]], // clap
+      [39, [42, 44]], // closed hat
+      [40, [46]], // open hat
+      [41, [41, 43, 45, 47, 48, 50]], // tom
+      [42, [49, 51, 52, 53, 55, 57, 59]], // cymbal
+      [43, [54, 56, 58, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 75, 76, 77, 80, 81]], // percussion
+    ]),
+  },
+];
+
+/**
+ * Reads a drum map from JSON: `{ "name": "...", "notes": { "36": 24, "38": 26 } }`,
+ * keyed by source note number. Throws on invalid input.
+ */
+export function parseDrumMap(json: string): DrumMap {
+  let data: { name?: unknown; notes?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Drum map is not valid JSON');
+  }
+  if (typeof data?.name !== 'string' || data.name.trim() === '') {
+    throw new Error('Drum map needs a "name"');
+  }
+  if (typeof data.notes !== 'object' || data.notes === null || Array.isArray(data.notes)) {
+    throw new Error('Drum map needs a "notes" object of source note -> target note');
+  }
+
+  const isNote = (n: number) => Number.isInteger(n) && n >= 0 && n <= 127;
+  const notes: Record<number, number> = {};
+  Object.entries(data.notes).forEach(([key, value]) => {
+    const source = Number(key);
+    if (!/^\d+$/.test(key) || !isNote(source) || typeof value !== 'number' || !isNote(value)) {
+      throw new Error(`Invalid entry "${key}": ${JSON.stringify(value)} (notes must be 0-127)`);
+    }
+    notes[source] = value;
+  });
+
+  const name = data.name.trim();
+  return {
+    id: `user-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    notes,
+  };
+}
+
+/** JSON for a drum map in the format `parseDrumMap` reads back. */
+export function serializeDrumMap(map: DrumMap): string {
+  return JSON.stringify({ name: map.name, notes: map.notes }, null, 2);
+}
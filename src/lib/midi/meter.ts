@@ -0,0 +1,124 @@
+import type { MIDIEvent, TimeSignatureEvent } from './types';
+import { DEFAULT_TIME_SIGNATURE, QUARTERS_PER_WHOLE_NOTE } from './constants';
+
+/**
+ * Collects timeSignature meta events into a meter map with bar numbers.
+ * The map always has an entry at tick 0 (4/4 if the file doesn't say).
+ * A meter change that lands mid-bar closes the partial bar and starts a
+ * new bar at the change.
+ */
+export function buildMeterMap(events: MIDIEvent[], ppq: number): TimeSignatureEvent[] {
+  const changes = events
+    .filter(e => e.type === 'meta' && e.metaType === 'timeSignature' && e.data && e.data.length >= 2)
+    .map(e => ({
+      ticks: e.absoluteTime,
+      numerator: e.data![0],
+      denominator: Math.pow(2, e.data![1]),
+    }))
+    .filter(m => m.numerator > 0)
+    .sort((a, b) => a.ticks - b.ticks);
+
+  // Several meter events on one tick: the last one wins
+  const meters: { ticks: number; numerator: number; denominator: number }[] = [];
+  changes.forEach(change => {
+    if (meters.length > 0 && meters[meters.length - 1].ticks === change.ticks) {
+      meters[meters.length - 1] = change;
+    } else {
+      meters.push(change);
+    }
+  });
+
+  if (meters.length === 0 || meters[0].ticks > 0) {
+    meters.unshift({ ticks: 0, ...DEFAULT_TIME_SIGNATURE });
+  }
+
+  const meterMap: TimeSignatureEvent[] = [];
+  meters.forEach((meter, i) => {
+    if (i === 0) {
+      meterMap.push({ ...meter, bar: 0 });
+      return;
+    }
+    const prev = meterMap[i - 1];
+    const elapsedBars = Math.ceil((meter.ticks - prev.ticks) / getTicksPerBar(prev, ppq));
+    meterMap.push({ ...meter, bar: prev.bar + elapsedBars });
+  });
+
+  return meterMap;
+}
+
+export function getTicksPerBar(meter: { numerator: number; denominator: number }, ppq: number): number {
+  return (ppq * QUARTERS_PER_WHOLE_NOTE * meter.numerator) / meter.denominator;
+}
+
+/** Steps in one bar of the given meter; `stepsPerBar` is defined for a 4/4 bar. */
+export function getStepsInBar(meter: { numerator: number; denominator: number }, stepsPerBar: number): number {
+  return (stepsPerBar * meter.numerator) / meter.denominator;
+}
+
+export function getMeterAt(meterMap: TimeSignatureEvent[], ticks: number): TimeSignatureEvent {
+  let current = meterMap[0] ?? { ticks: 0, ...DEFAULT_TIME_SIGNATURE, bar: 0 };
+  for (const meter of meterMap) {
+    if (meter.ticks > ticks) break;
+    current = meter;
+  }
+  return current;
+}
+
+/** Converts a tick position to a 0-based bar, beat (in the meter's note value) and tick offset. */
+export function ticksToBarBeat(
+  ticks: number,
+  meterMap: TimeSignatureEvent[],
+  ppq: number
+): { bar: number; beat: number; tick: number } {
+  const meter = getMeterAt(meterMap, ticks);
+  const ticksPerBar = getTicksPerBar(meter, ppq);
+  const ticksPerBeat = (ppq * QUARTERS_PER_WHOLE_NOTE) / meter.denominator;
+  const barOffset = Math.floor((ticks - meter.ticks) / ticksPerBar);
+  const inBar = ticks - meter.ticks - barOffset * ticksPerBar;
+
+  return {
+    bar: meter.bar + barOffset,
+    beat: Math.floor(inBar / ticksPerBeat),
+    tick: inBar % ticksPerBeat,
+  };
+}
+
+/** Formats a tick position as 1-based "bar.beat", e.g. "9.1". */
+export function formatBarBeat(ticks: number, meterMap: TimeSignatureEvent[], ppq: number): string {
+  const { bar, beat } = ticksToBarBeat(ticks, meterMap, ppq);
+  return `${bar + 1}.${beat + 1}`;
+}
+
+/** Tick position of the start of a 0-based bar. */
+export function barToTicks(bar: number, meterMap: TimeSignatureEvent[], ppq: number): number {
+  let meter = meterMap[0] ?? { ticks: 0, ...DEFAULT_TIME_SIGNATURE, bar: 0 };
+  for (const m of meterMap) {
+    if (m.bar > bar) break;
+    meter = m;
+  }
+  return meter.ticks + (bar - meter.bar) * getTicksPerBar(meter, ppq);
+}
+
+/**
+ * Time signatures for a clip covering [startTicks, endTicks), relative to
+ * the clip start: the meter in effect at the start, followed by every
+ * change inside the range.
+ */
+export function getClipTimeSignatures(
+  meterMap: TimeSignatureEvent[],
+  startTicks: number,
+  endTicks: number,
+  ppq: number
+): TimeSignatureEvent[] {
+  const startMeter = getMeterAt(meterMap, startTicks);
+  const startBar = ticksToBarBeat(startTicks, meterMap, ppq).bar;
+  const clipMeters = [{ ...startMeter, ticks: 0, bar: 0 }];
+
+  meterMap.forEach(meter => {
+    if (meter.ticks > startTicks && meter.ticks < endTicks) {
+      clipMeters.push({ ...meter, ticks: meter.ticks - startTicks, bar: meter.bar - startBar });
+    }
+  });
+
+  return clipMeters;
+}
@@ -1,165 +1,316 @@
-import { Midi } from '@tonejs/midi';
 import type { MIDIHeader, MIDITrack, ParsedMIDI, MIDIEvent } from './types';
-import { DRUM_CHANNEL, TIME_SIGNATURE_NUMERATOR } from './constants';
+import { DRUM_CHANNEL, META_TYPE_NAMES, QUARTERS_PER_WHOLE_NOTE } from './constants';
+import { buildTempoMap, getTempoAt } from './tempo';
+import { buildMeterMap } from './meter';
+
+export interface SMFData {
+  header: MIDIHeader;
+  tracks: MIDIEvent[][];
+}
 
 export async function parseMIDIFile(file: File): Promise<ParsedMIDI> {
   const arrayBuffer = await file.arrayBuffer();
-  const midi = new Midi(arrayBuffer);
-  
-  const header: MIDIHeader = {
-    format: midi.tracks.length === 1 ? 0 : 1,
-    trackCount: midi.tracks.length,
-    ppq: midi.header.ppq,
+  const smf = readSMF(new Uint8Array(arrayBuffer));
+
+  const tracks = smf.tracks.map((events, index) => createTrack(events, index));
+
+  const duration = Math.max(0, ...tracks.map(t => 
+    t.events.length > 0 ? t.events[t.events.length - 1].absoluteTime : 0
+  ));
+
+  const tempoEvents = tracks.flatMap(t => t.events).filter(e => e.type === 'meta' && e.metaType === 'setTempo');
+  const tempoMap = buildTempoMap(tempoEvents);
+
+  // Keep the first tempo event's BPM for display
+  const tempo = tempoEvents.length > 0
+    ? getTempoAt(tempoMap, Math.min(...tempoEvents.map(e => e.absoluteTime))).bpm
+    : undefined;
+
+  const meterMap = buildMeterMap(tracks.flatMap(t => t.events), smf.header.ppq);
+
+  return {
+    header: smf.header,
+    tracks,
+    fileName: file.name,
+    duration,
+    tempo,
+    tempoMap,
+    meterMap,
   };
+}
 
-  const tracks: MIDITrack[] = midi.tracks.map((track, index) => {
-    const channels = new Set<number>();
-    let noteMin = 127;
-    let noteMax = 0;
-    let hasNotes = false;
-    let program: number | undefined;
-    let isDrums = false;
-
-    const events: MIDIEvent[] = [];
-
-    // Process notes and detect channels
-    track.notes.forEach(note => {
-      // Use channel from track if available, otherwise default to 0
-      const channel = track.channel !== undefined ? track.channel : 0;
-      channels.add(channel);
-      noteMin = Math.min(noteMin, note.midi);
-      noteMax = Math.max(noteMax, note.midi);
-      hasNotes = true;
+/**
+ * Builds a track summary (channels, note range, program, drum flag, name)
+ * from an event stream.
+ */
+export function createTrack(events: MIDIEvent[], index: number, fallbackName = `Track ${index + 1}`): MIDITrack {
+  const channels = new Set<number>();
+  const noteChannels = new Set<number>();
+  let noteMin = 127;
+  let noteMax = 0;
+  let hasNotes = false;
+  let program: number | undefined;
+  let name: string | undefined;
 
-      const absoluteTime = Math.round(note.ticks);
-      
-      events.push({
-        type: 'noteOn',
-        deltaTime: 0, // Will be calculated later
-        absoluteTime,
-        channel,
-        note: note.midi,
-        velocity: Math.round(note.velocity * 127),
-      });
+  events.forEach(event => {
+    if (event.channel !== undefined) {
+      channels.add(event.channel);
+    }
 
-      events.push({
-        type: 'noteOff',
-        deltaTime: 0,
-        absoluteTime: absoluteTime + Math.round(note.durationTicks),
-        channel,
-        note: note.midi,
-        velocity: 0,
-      });
-    });
+    if (event.type === 'noteOn' && event.note !== undefined) {
+      noteChannels.add(event.channel!);
+      noteMin = Math.min(noteMin, event.note);
+      noteMax = Math.max(noteMax, event.note);
+      hasNotes = true;
+    } else if (event.type === 'programChange' && program === undefined) {
+      // First program change selects the track's instrument
+      program = event.program;
+    } else if (event.type === 'meta' && event.metaType === 'trackName' && name === undefined) {
+      name = event.text;
+    }
+  });
 
-    // Check if track uses drum channel (channel 10 = index 9) or instrument is percussion
-    if (track.channel === DRUM_CHANNEL || track.instrument?.percussion) {
+  // Track is drums if all of its notes are on channel 10, or its name says so
+  let isDrums = noteChannels.size > 0 && Array.from(noteChannels).every(c => c === DRUM_CHANNEL);
+  if (!isDrums) {
+    const trackNameLower = (name || '').toLowerCase();
+    if (trackNameLower.includes('drum') || trackNameLower.includes('perc')) {
       isDrums = true;
-    } else {
-      // Also check track name as fallback
-      const trackNameLower = (track.name || '').toLowerCase();
-      if (trackNameLower.includes('drum') || trackNameLower.includes('perc')) {
-        isDrums = true;
-      }
     }
+  }
+
+  return {
+    index,
+    name: name || fallbackName,
+    events,
+    channels,
+    noteRange: hasNotes ? { min: noteMin, max: noteMax } : null,
+    eventCount: events.length,
+    program,
+    isDrums,
+  };
+}
+
+/**
+ * Reads a Standard MIDI File into its header and the raw event stream of
+ * each MTrk chunk, in file order. Handles running status, variable-length
+ * quantities, meta events and both sysex forms (F0 and F7 escapes).
+ */
+export function readSMF(data: Uint8Array): SMFData {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} (at byte ${pos})`);
+  };
+
+  const readUint32 = (): number => {
+    if (pos + 4 > data.length) fail('Unexpected end of file');
+    const value = ((data[pos] << 24) | (data[pos + 1] << 16) | (data[pos + 2] << 8) | data[pos + 3]) >>> 0;
+    pos += 4;
+    return value;
+  };
+
+  const readUint16 = (): number => {
+    if (pos + 2 > data.length) fail('Unexpected end of file');
+    const value = (data[pos] << 8) | data[pos + 1];
+    pos += 2;
+    return value;
+  };
+
+  const readChunkId = (): string => {
+    if (pos + 4 > data.length) fail('Unexpected end of file');
+    const id = String.fromCharCode(data[pos], data[pos + 1], data[pos + 2], data[pos + 3]);
+    pos += 4;
+    return id;
+  };
+
+  if (readChunkId() !== 'MThd') {
+    fail('Not a Standard MIDI File: missing MThd header');
+  }
+  const headerLength = readUint32();
+  const headerEnd = pos + headerLength;
+  const format = readUint16();
+  const declaredTrackCount = readUint16();
+  const division = readUint16();
+  pos = headerEnd;
+
+  if (format > 2) fail(`Unsupported SMF format ${format}`);
+  if (division & 0x8000) fail('SMPTE time division is not supported');
+
+  const tracks: MIDIEvent[][] = [];
+  while (pos + 8 <= data.length) {
+    const id = readChunkId();
+    const length = readUint32();
+    const chunkEnd = Math.min(pos + length, data.length);
+
+    // Unknown chunk types must be skipped per the SMF spec
+    if (id === 'MTrk') {
+      tracks.push(readTrackEvents(data, pos, chunkEnd));
+    }
+    pos = chunkEnd;
+  }
+
+  if (tracks.length === 0 && declaredTrackCount > 0) {
+    fail('No MTrk chunks found');
+  }
+
+  return {
+    header: {
+      format: format as 0 | 1 | 2,
+      trackCount: tracks.length,
+      ppq: division,
+    },
+    tracks,
+  };
+}
+
+function readTrackEvents(data: Uint8Array, start: number, end: number): MIDIEvent[] {
+  const events: MIDIEvent[] = [];
+  let pos = start;
+  let absoluteTime = 0;
+  let runningStatus: number | undefined;
+
+  const readByte = (): number => {
+    if (pos >= end) {
+      throw new Error(`Unexpected end of track chunk (at byte ${pos})`);
+    }
+    return data[pos++];
+  };
 
-    // Detect program change (instrument selection)
-    if (track.instrument) {
-      program = track.instrument.number;
+  const readVLQ = (): number => {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = readByte();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
     }
+    throw new Error(`Invalid variable-length quantity (at byte ${pos})`);
+  };
 
-    // Process control changes
-    Object.entries(track.controlChanges).forEach(([controller, ccList]) => {
-      ccList.forEach(cc => {
-        const channel = track.channel !== undefined ? track.channel : 0;
-        events.push({
-          type: 'cc',
-          deltaTime: 0,
-          absoluteTime: Math.round(cc.ticks),
-          channel,
-          controller: parseInt(controller),
-          value: Math.round(cc.value * 127),
-        });
-      });
-    });
-
-    // Process pitch bend events
-    if (track.pitchBends && track.pitchBends.length > 0) {
-      track.pitchBends.forEach(pb => {
-        const channel = track.channel !== undefined ? track.channel : 0;
-        events.push({
-          type: 'pitchBend',
-          deltaTime: 0,
-          absoluteTime: Math.round(pb.ticks),
-          channel,
-          value: Math.round((pb.value + 1) * 8192), // Convert -1 to 1 range to 0-16384
-        });
+  const readBytes = (length: number): Uint8Array => {
+    if (pos + length > end) {
+      throw new Error(`Unexpected end of track chunk (at byte ${pos})`);
+    }
+    const bytes = data.slice(pos, pos + length);
+    pos += length;
+    return bytes;
+  };
+
+  while (pos < end) {
+    const deltaTime = readVLQ();
+    absoluteTime += deltaTime;
+
+    let status = data[pos];
+    if (status & 0x80) {
+      pos++;
+    } else if (runningStatus !== undefined) {
+      // Running status: data byte follows, reuse the previous channel status
+      status = runningStatus;
+    } else {
+      throw new Error(`Data byte without status (at byte ${pos})`);
+    }
+
+    if (status === 0xff) {
+      const metaTypeByte = readByte();
+      const length = readVLQ();
+      const payload = readBytes(length);
+      const metaType = META_TYPE_NAMES[metaTypeByte] ?? 'unknown';
+      const isText = metaTypeByte >= 0x01 && metaTypeByte <= 0x0f;
+
+      events.push({
+        type: 'meta',
+        deltaTime,
+        absoluteTime,
+        metaType,
+        data: payload,
+        text: isText ? String.fromCharCode(...payload) : undefined,
+        raw: concatBytes([0xff, metaTypeByte], payload),
       });
+
+      if (metaType === 'endOfTrack') break;
+      continue;
     }
 
-    // Add program change event if instrument is defined
-    if (program !== undefined) {
-      const channel = track.channel !== undefined ? track.channel : 0;
+    if (status === 0xf0 || status === 0xf7) {
+      // F0 = normal sysex, F7 = escape (arbitrary bytes, incl. sysex continuation)
+      const length = readVLQ();
+      const payload = readBytes(length);
       events.push({
-        type: 'programChange',
-        deltaTime: 0,
-        absoluteTime: 0, // Program change at start of track
-        channel,
-        program,
+        type: 'sysex',
+        deltaTime,
+        absoluteTime,
+        data: payload,
+        raw: concatBytes([status], payload),
       });
+      continue;
     }
 
-    // Sort by absolute time
-    events.sort((a, b) => a.absoluteTime - b.absoluteTime);
-
-    // Calculate delta times
-    let lastTime = 0;
-    events.forEach(event => {
-      event.deltaTime = event.absoluteTime - lastTime;
-      lastTime = event.absoluteTime;
-    });
-
-    return {
-      index,
-      name: track.name || `Track ${index + 1}`,
-      events,
-      channels,
-      noteRange: hasNotes ? { min: noteMin, max: noteMax } : null,
-      eventCount: events.length,
-      program,
-      isDrums,
-    };
-  });
+    if (status >= 0xf1) {
+      throw new Error(`Unexpected system message 0x${status.toString(16)} (at byte ${pos})`);
+    }
 
-  const duration = Math.max(...tracks.map(t => 
-    t.events.length > 0 ? t.events[t.events.length - 1].absoluteTime : 0
-  ));
+    runningStatus = status;
+    const messageType = status >> 4;
+    const channel = status & 0x0f;
+    const data1 = readByte();
+    const hasData2 = messageType !== 0xc && messageType !== 0xd;
+    const data2 = hasData2 ? readByte() : undefined;
+    const raw = new Uint8Array(hasData2 ? [status, data1, data2!] : [status, data1]);
+    const base = { deltaTime, absoluteTime, channel, raw };
 
-  // Read tempo from MIDI file (use first tempo event)
-  const tempo = midi.header.tempos && midi.header.tempos.length > 0 
-    ? midi.header.tempos[0].bpm 
-    : undefined;
+    switch (messageType) {
+      case 0x8:
+        events.push({ ...base, type: 'noteOff', note: data1, velocity: data2 });
+        break;
+      case 0x9:
+        // noteOn with velocity 0 is a noteOff by convention
+        events.push({ ...base, type: data2 === 0 ? 'noteOff' : 'noteOn', note: data1, velocity: data2 });
+        break;
+      case 0xa:
+        events.push({ ...base, type: 'aftertouch', note: data1, value: data2 });
+        break;
+      case 0xb:
+        events.push({ ...base, type: 'cc', controller: data1, value: data2 });
+        break;
+      case 0xc:
+        events.push({ ...base, type: 'programChange', program: data1 });
+        break;
+      case 0xd:
+        events.push({ ...base, type: 'channelAftertouch', value: data1 });
+        break;
+      case 0xe:
+        events.push({ ...base, type: 'pitchBend', value: data1 | (data2! << 7) });
+        break;
+    }
+  }
 
-  return {
-    header,
-    tracks,
-    fileName: file.name,
-    duration,
-    tempo,
-  };
+  return events;
+}
+
+function concatBytes(prefix: number[], payload: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(prefix.length + payload.length);
+  bytes.set(prefix, 0);
+  bytes.set(payload, prefix.length);
+  return bytes;
+}
+
+/**
+ * Ticks per step. `stepsPerBar` is the step count of a 4/4 bar, so the step
+ * grid stays constant across meters and bars of other meters simply hold
+ * more or fewer steps (see getStepsInBar in meter.ts).
+ */
+export function getTicksPerStep(ppq: number, stepsPerBar: number): number {
+  return (ppq * QUARTERS_PER_WHOLE_NOTE) / stepsPerBar;
 }
 
 export function calculateSteps(ticks: number, ppq: number, stepsPerBar: number): number {
-  const ticksPerStep = (ppq * TIME_SIGNATURE_NUMERATOR) / stepsPerBar;
-  return Math.ceil(ticks / ticksPerStep);
+  return Math.ceil(ticks / getTicksPerStep(ppq, stepsPerBar));
 }
 
 export function ticksToSteps(ticks: number, ppq: number, stepsPerBar: number): number {
-  const ticksPerStep = (ppq * TIME_SIGNATURE_NUMERATOR) / stepsPerBar;
-  return Math.floor(ticks / ticksPerStep);
+  return Math.floor(ticks / getTicksPerStep(ppq, stepsPerBar));
 }
 
 export function stepsToTicks(steps: number, ppq: number, stepsPerBar: number): number {
-  const ticksPerStep = (ppq * TIME_SIGNATURE_NUMERATOR) / stepsPerBar;
-  return steps * ticksPerStep;
+  return steps * getTicksPerStep(ppq, stepsPerBar);
 }
@@ -0,0 +1,106 @@
+import type { MIDIEvent, ClipRange, DedupeSettings } from './types';
+import { buildNoteLifecycles } from './transform';
+
+interface ClipSignature {
+  length: number;
+  notes: { start: number; duration: number; note: number; velocity: number; channel: number }[];
+  controls: MIDIEvent[]; // non-note channel events, sorted by time
+}
+
+export interface RepeatedClips {
+  patterns: number[]; // clip index of each unique pattern, in order of first appearance
+  chain: { pattern: number; transpose: number }[]; // one entry per clip: pattern index + semitones
+}
+
+/** Reduces a clip to a comparable form: note tuples plus the other channel events. */
+function buildClipSignature(events: MIDIEvent[], range: ClipRange): ClipSignature {
+  const length = range.end - range.start;
+  const notes = Array.from(buildNoteLifecycles(events).values()).flat().map(({ noteOn, noteOff }) => ({
+    start: noteOn.absoluteTime,
+    duration: (noteOff ? noteOff.absoluteTime : length) - noteOn.absoluteTime,
+    note: noteOn.note!,
+    velocity: noteOn.velocity ?? 0,
+    channel: noteOn.channel ?? 0,
+  }));
+  notes.sort((a, b) => a.start - b.start || a.note - b.note);
+
+  const controls = events.filter(e =>
+    e.channel !== undefined && e.type !== 'noteOn' && e.type !== 'noteOff'
+  );
+
+  return { length, notes, controls };
+}
+
+/**
+ * Compares two clip signatures. Returns the transposition (in semitones)
+ * that turns `a` into `b`, or null if they don't match within tolerance.
+ */
+function matchSignatures(a: ClipSignature, b: ClipSignature, settings: DedupeSettings): number | null {
+  if (a.length !== b.length || a.notes.length !== b.notes.length || a.controls.length !== b.controls.length) {
+    return null;
+  }
+
+  const transpose = a.notes.length > 0 ? b.notes[0].note - a.notes[0].note : 0;
+  if (transpose !== 0 && !settings.matchTransposed) return null;
+
+  const withinTiming = (x: number, y: number) => Math.abs(x - y) <= settings.timingTolerance;
+
+  const notesMatch = a.notes.every((noteA, i) => {
+    const noteB = b.notes[i];
+    return noteB.note - noteA.note === transpose &&
+      noteA.channel === noteB.channel &&
+      withinTiming(noteA.start, noteB.start) &&
+      withinTiming(noteA.duration, noteB.duration) &&
+      Math.abs(noteA.velocity - noteB.velocity) <= settings.velocityTolerance;
+  });
+  if (!notesMatch) return null;
+
+  const controlsMatch = a.controls.every((eventA, i) => {
+    const eventB = b.controls[i];
+    const noteShift = eventA.note !== undefined ? transpose : 0;
+    return eventA.type === eventB.type &&
+      eventA.channel === eventB.channel &&
+      eventA.controller === eventB.controller &&
+      eventA.program === eventB.program &&
+      eventA.value === eventB.value &&
+      (eventA.note === undefined || eventB.note === eventA.note + noteShift) &&
+      withinTiming(eventA.absoluteTime, eventB.absoluteTime);
+  });
+
+  return controlsMatch ? transpose : null;
+}
+
+/**
+ * Collapses identical, transposed or near-identical clips into unique
+ * patterns and returns the order they play in.
+ */
+export function findRepeatedClips(
+  clips: MIDIEvent[][],
+  ranges: ClipRange[],
+  settings: DedupeSettings
+): RepeatedClips {
+  if (!settings.enabled) {
+    return {
+      patterns: clips.map((_, i) => i),
+      chain: clips.map((_, i) => ({ pattern: i, transpose: 0 })),
+    };
+  }
+
+  const signatures = clips.map((events, i) => buildClipSignature(events, ranges[i]));
+  const patterns: number[] = [];
+  const chain: RepeatedClips['chain'] = [];
+
+  signatures.forEach((signature, clipIndex) => {
+    for (let pattern = 0; pattern < patterns.length; pattern++) {
+      const transpose = matchSignatures(signatures[patterns[pattern]], signature, settings);
+      if (transpose !== null) {
+        chain.push({ pattern, transpose });
+        return;
+      }
+    }
+    patterns.push(clipIndex);
+    chain.push({ pattern: patterns.length - 1, transpose: 0 });
+  });
+
+  return { patterns, chain };
+}
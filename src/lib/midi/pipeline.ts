@@ -0,0 +1,152 @@
+import type { ParsedMIDI, OutputTrackConfig, SplitSettings, MIDIEvent, ClipRange, QuantizeReport, TiedNoteReport, ResampleReport, DrumMapReport, PlayableRangeReport, PolyphonyReport, VelocityReport, SustainReport } from './types';
+import { addAccents, applyDrumMap, applyVelocity, bakeSustain, collectMarkerTicks, computeClipRanges, cropEvents, fitToRange, getClipLengths, getCropTicks, getStartTicks, limitPolyphony, mergeTracks, quantizeEvents, resampleEvents, resolveTiedNotes, splitEventsByRanges } from './transform';
+import { getTicksPerStep } from './parser';
+import { findRepeatedClips, type RepeatedClips } from './patterns';
+
+export interface ProcessedOutput {
+  events: MIDIEvent[]; // merged and transformed, before splitting (source ticks)
+  ranges: ClipRange[]; // source ticks
+  lengths: number[]; // loop length of each clip, source ticks
+  overruns: number[]; // indices of clips with events past their loop length (e.g. extended tied notes)
+  clips: MIDIEvent[][]; // relative to each clip start, at the export PPQ
+  repeats: RepeatedClips;
+  reports: {
+    sustain?: SustainReport;
+    drumMap?: DrumMapReport;
+    playableRange?: PlayableRangeReport;
+    velocity?: VelocityReport;
+    quantize?: QuantizeReport;
+    polyphony?: PolyphonyReport;
+    tiedNotes?: TiedNoteReport;
+    resample?: ResampleReport;
+  };
+}
+
+/**
+ * Merges one output's source tracks, bakes in the sustain pedal, crops them
+ * to the export window and applies the output's processing stages.
+ */
+function transformOutput(
+  parsedMidi: ParsedMIDI,
+  config: OutputTrackConfig,
+  settings: SplitSettings
+): { events: MIDIEvent[]; reports: ProcessedOutput['reports'] } {
+  const reports: ProcessedOutput['reports'] = {};
+  const sourcePpq = parsedMidi.header.ppq;
+  const crop = getCropTicks(settings, sourcePpq, parsedMidi.meterMap);
+  let events = mergeTracks(parsedMidi.tracks, config);
+  // Before the crop, so a pedal pressed ahead of the window still holds its notes
+  if (config.sustain?.enabled) {
+    const baked = bakeSustain(events, config.sustain);
+    events = baked.events;
+    reports.sustain = baked.report;
+  }
+  if (crop) {
+    events = cropEvents(events, crop, { chase: config.chase, tiedNotes: config.tiedNotes });
+  }
+  if (events.length === 0) return { events, reports };
+
+  if (config.drumMap) {
+    const mapped = applyDrumMap(events, config.drumMap);
+    events = mapped.events;
+    reports.drumMap = mapped.report;
+  }
+
+  if (config.playableRange?.enabled) {
+    const fitted = fitToRange(events, config.playableRange);
+    events = fitted.events;
+    reports.playableRange = fitted.report;
+  }
+
+  if (config.velocity?.enabled) {
+    const shaped = applyVelocity(events, config.velocity);
+    events = shaped.events;
+    reports.velocity = shaped.report;
+  }
+
+  if (config.quantize?.enabled) {
+    const quantized = quantizeEvents(events, config.quantize, getTicksPerStep(sourcePpq, settings.stepsPerBar));
+    events = quantized.events;
+    reports.quantize = quantized.report;
+  }
+
+  // After quantize, which can create or remove overlaps
+  if (config.polyphony?.enabled) {
+    const limited = limitPolyphony(events, config.polyphony);
+    events = limited.events;
+    reports.polyphony = limited.report;
+  }
+
+  // Last, so the voice limiter neither counts nor drops the accent notes
+  if (config.velocity?.enabled) {
+    events = addAccents(events, config.velocity.accent);
+  }
+
+  return { events, reports };
+}
+
+/**
+ * Runs one output through the full transform chain: transform its events,
+ * choose clip boundaries (or take `sharedRanges`), split, find repeated
+ * clips, and rescale the clips to the export PPQ.
+ * Shared by the summary and the export so both show the same result.
+ */
+export function processOutput(
+  parsedMidi: ParsedMIDI,
+  config: OutputTrackConfig,
+  settings: SplitSettings,
+  markerTicks: number[] = collectMarkerTicks(parsedMidi.tracks),
+  sharedRanges?: ClipRange[]
+): ProcessedOutput {
+  const sourcePpq = parsedMidi.header.ppq;
+  const { events, reports } = transformOutput(parsedMidi, config, settings);
+  if (events.length === 0) {
+    return { events, ranges: [], lengths: [], overruns: [], clips: [], repeats: { patterns: [], chain: [] }, reports };
+  }
+
+  const startTicks = getStartTicks(parsedMidi.tracks, settings, sourcePpq, parsedMidi.meterMap);
+  const crop = getCropTicks(settings, sourcePpq, parsedMidi.meterMap);
+  const ranges = sharedRanges ?? computeClipRanges(events, settings, sourcePpq, parsedMidi.meterMap, markerTicks, startTicks, crop?.end);
+  const lengths = getClipLengths(ranges, settings, sourcePpq, parsedMidi.meterMap);
+  const sourceClips = splitEventsByRanges(events, ranges, { chase: config.chase, tiedNotes: config.tiedNotes, patch: config.patch });
+  // Such a clip's file ends after its last event, so it loops later than its step range says
+  const overruns = sourceClips.flatMap((clip, i) => clip.some(event => event.absoluteTime > lengths[i]) ? [i] : []);
+  reports.tiedNotes = resolveTiedNotes(events, ranges, config.tiedNotes).report;
+  // Repeats are found at source resolution, where timing tolerance is measured,
+  // and only between clips that loop at the same length
+  const loopRanges = ranges.map((range, i) => ({ start: range.start, end: range.start + lengths[i] }));
+  const repeats = findRepeatedClips(sourceClips, loopRanges, settings.dedupe);
+
+  let clips = sourceClips;
+  if (settings.ppq !== sourcePpq) {
+    const resampled = sourceClips.map(clip => resampleEvents(clip, sourcePpq, settings.ppq, settings.ppqRounding));
+    clips = resampled.map(r => r.events);
+    reports.resample = { collisions: resampled.reduce((sum, r) => sum + r.report.collisions, 0) };
+  }
+
+  return { events, ranges, lengths, overruns, clips, repeats, reports };
+}
+
+/**
+ * One set of clip boundaries for several outputs, chosen from all their
+ * transformed events together, so outputs written side by side (the
+ * multiTrack format) cover the same song window at every split index.
+ */
+export function getSharedClipRanges(
+  parsedMidi: ParsedMIDI,
+  configs: OutputTrackConfig[],
+  settings: SplitSettings,
+  markerTicks: number[] = collectMarkerTicks(parsedMidi.tracks)
+): ClipRange[] {
+  const sourcePpq = parsedMidi.header.ppq;
+  // Each output gets its own block of channels so notes only pair within their output
+  const events = configs
+    .flatMap((config, i) => transformOutput(parsedMidi, config, settings).events
+      .map(event => event.channel === undefined ? event : { ...event, channel: event.channel + 16 * i }))
+    .sort((a, b) => a.absoluteTime - b.absoluteTime);
+  if (events.length === 0) return [];
+
+  const startTicks = getStartTicks(parsedMidi.tracks, settings, sourcePpq, parsedMidi.meterMap);
+  const crop = getCropTicks(settings, sourcePpq, parsedMidi.meterMap);
+  return computeClipRanges(events, settings, sourcePpq, parsedMidi.meterMap, markerTicks, startTicks, crop?.end);
+}
@@ -1,8 +1,8 @@
 import * as Tone from 'tone';
 import Soundfont from 'soundfont-player';
-import type { ParsedMIDI, MIDITrack } from './types';
+import type { ParsedMIDI, MIDITrack, TempoEvent } from './types';
 import { getInstrumentName } from './gm-instruments';
-import { DEFAULT_BPM } from './constants';
+import { ticksToSeconds } from './tempo';
 
 // Structure for scheduled events
 interface ScheduledEvent {
@@ -49,13 +49,8 @@ export class MidiPlayer {
     this.parsedMidi = midi;
     this.audioContext = Tone.context.rawContext as AudioContext;
 
-    // Read BPM from MIDI file
-    const bpm = midi.tempo || DEFAULT_BPM;
-
-    // Calculate duration in seconds
-    const beatsPerTick = 1 / midi.header.ppq;
-    const secondsPerBeat = 60 / bpm;
-    this.duration = (midi.duration * beatsPerTick * secondsPerBeat);
+    // Calculate duration in seconds, following tempo changes
+    this.duration = ticksToSeconds(midi.duration, midi.tempoMap, midi.header.ppq);
 
     // Initialize loading tracking
     this.loadingProgress = 0;
@@ -65,7 +60,7 @@ export class MidiPlayer {
     // Load instruments for each track
     await Promise.all(
       midi.tracks.map(async (track, index) => {
-        await this.loadTrackInstrument(track, index, midi.header.ppq, bpm);
+        await this.loadTrackInstrument(track, index, midi.header.ppq, midi.tempoMap);
         this.loadingProgress++;
       })
     );
@@ -75,7 +70,7 @@ export class MidiPlayer {
     track: MIDITrack,
     index: number,
     ppq: number,
-    bpm: number
+    tempoMap: TempoEvent[]
   ) {
     if (!this.audioContext) return;
 
@@ -110,7 +105,7 @@ export class MidiPlayer {
         MidiPlayer.instrumentCache.set(instrumentName, instrument);
       }
 
-      const events = this.convertTrackToEvents(track, ppq, bpm);
+      const events = this.convertTrackToEvents(track, ppq, tempoMap);
 
       this.tracks.set(index, {
         instrument,
@@ -135,14 +130,12 @@ export class MidiPlayer {
     }
   }
 
-  private convertTrackToEvents(track: MIDITrack, ppq: number, bpm: number): ScheduledEvent[] {
+  private convertTrackToEvents(track: MIDITrack, ppq: number, tempoMap: TempoEvent[]): ScheduledEvent[] {
     const events: ScheduledEvent[] = [];
     const noteOnMap = new Map<string, { time: number; velocity: number }>();
-    const beatsPerTick = 1 / ppq;
-    const secondsPerBeat = 60 / bpm;
 
     track.events.forEach(event => {
-      const timeInSeconds = event.absoluteTime * beatsPerTick * secondsPerBeat;
+      const timeInSeconds = ticksToSeconds(event.absoluteTime, tempoMap, ppq);
 
       if (event.type === 'noteOn' && event.note !== undefined && event.velocity !== undefined) {
         const channel = event.channel ?? 0;
@@ -0,0 +1,205 @@
+import type { DeviceOutput, DeviceProfile, NoteRange } from './types';
+import { DEFAULT_MAX_STEPS, DEFAULT_STEPS_PER_BAR } from './constants';
+
+const FULL_RANGE: NoteRange = { min: 0, max: 127 };
+
+const numberedOutputs = (count: number, id: (n: number) => string, name: (n: number) => string): DeviceOutput[] =>
+  Array.from({ length: count }, (_, i) => ({ id: id(i + 1), name: name(i + 1), midiChannel: i + 1 }));
+
+export const BUILT_IN_PROFILES: DeviceProfile[] = [
+  {
+    id: 'generic-4',
+    name: 'Generic 4-track (A–D)',
+    builtIn: true,
+    outputs: ['A', 'B', 'C', 'D'].map(id => ({ id, name: `Track ${id}` })),
+    maxStepsPerClip: DEFAULT_MAX_STEPS,
+    stepsPerBar: DEFAULT_STEPS_PER_BAR,
+    allowedPpq: [],
+    noteRange: FULL_RANGE,
+    fileNamePattern: '{output}_{index}',
+    indexPadding: 0,
+    folderPattern: '',
+  },
+  {
+    id: 'groovebox-8',
+    name: '8-track groovebox (64 steps)',
+    builtIn: true,
+    outputs: numberedOutputs(8, n => `T${n}`, n => `Track ${n}`),
+    maxStepsPerClip: 64,
+    stepsPerBar: 16,
+    allowedPpq: [96],
+    noteRange: FULL_RANGE,
+    maxPolyphony: 4,
+    fileNamePattern: '{output}_{index}',
+    indexPadding: 2,
+    folderPattern: '',
+  },
+  {
+    id: 'mono-4',
+    name: '4-voice mono sequencer',
+    builtIn: true,
+    outputs: numberedOutputs(4, n => `S${n}`, n => `Seq ${n}`),
+    maxStepsPerClip: 64,
+    stepsPerBar: 16,
+    allowedPpq: [24, 48, 96],
+    noteRange: { min: 24, max: 96 },
+    maxPolyphony: 1,
+    fileNamePattern: '{output}-{index}',
+    indexPadding: 3,
+    folderPattern: '',
+  },
+  {
+    id: 'daw-16',
+    name: 'DAW, 16 channels',
+    builtIn: true,
+    outputs: numberedOutputs(16, n => `CH${n}`, n => `Channel ${n}`),
+    maxStepsPerClip: 1024,
+    stepsPerBar: 16,
+    allowedPpq: [],
+    noteRange: FULL_RANGE,
+    fileNamePattern: '{name}_{index}',
+    indexPadding: 2,
+    folderPattern: '{name}',
+  },
+];
+
+export const DEFAULT_PROFILE = BUILT_IN_PROFILES[0];
+
+/** Note range and polyphony for one output, with per-output overrides applied. */
+export function getOutputLimits(profile: DeviceProfile, outputId: string): { noteRange: NoteRange; maxPolyphony?: number } {
+  const output = profile.outputs.find(o => o.id === outputId);
+  return {
+    noteRange: output?.noteRange ?? profile.noteRange,
+    maxPolyphony: output?.maxPolyphony ?? profile.maxPolyphony,
+  };
+}
+
+/** The PPQ itself if the profile allows it, otherwise the closest allowed value. */
+export function pickPpq(profile: DeviceProfile, ppq: number): number {
+  if (profile.allowedPpq.length === 0 || profile.allowedPpq.includes(ppq)) return ppq;
+  return profile.allowedPpq.reduce((best, p) => Math.abs(p - ppq) < Math.abs(best - ppq) ? p : best);
+}
+
+/**
+ * Builds the ZIP path for a clip from the profile's folder and filename
+ * patterns. Without an index (single-clip output) the {index} token and the
+ * separator before it are dropped.
+ */
+export function formatClipPath(
+  profile: DeviceProfile,
+  output: Pick<DeviceOutput, 'id' | 'name'>,
+  index?: number,
+  suffix = ''
+): string {
+  const tokens: Record<string, string> = {
+    output: output.id,
+    name: output.name,
+    index: index === undefined ? '' : String(index).padStart(profile.indexPadding, '0'),
+  };
+  const expand = (pattern: string) => {
+    const withoutIndex = index === undefined ? pattern.replace(/[-_ .]?\{index\}/g, '') : pattern;
+    return withoutIndex
+      .replace(/\{(output|name|index)\}/g, (_, key: string) => tokens[key])
+      .replace(/[\\/:*?"<>|]/g, '_')
+      .trim();
+  };
+
+  const filename = `${expand(profile.fileNamePattern) || output.id}${suffix}.mid`;
+  const folder = expand(profile.folderPattern);
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+/**
+ * Reads a user profile from JSON. Only `name` and `outputs` are required;
+ * everything else falls back to the generic profile. Throws on invalid input.
+ */
+export function parseDeviceProfile(json: string): DeviceProfile {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Profile is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Profile must be a JSON object');
+  }
+
+  const name = data.name;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('Profile needs a "name"');
+  }
+
+  const isInt = (value: unknown, min: number, max = Infinity): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+  const readInt = (key: string, fallback: number, min: number, max?: number): number => {
+    const value = data[key];
+    if (value === undefined) return fallback;
+    if (!isInt(value, min, max)) throw new Error(`"${key}" must be a whole number of at least ${min}`);
+    return value;
+  };
+  const readRange = (value: unknown, label: string): NoteRange | undefined => {
+    if (value === undefined) return undefined;
+    const range = value as Partial<NoteRange>;
+    if (!isInt(range?.min, 0, 127) || !isInt(range?.max, 0, 127) || range.min > range.max) {
+      throw new Error(`${label} must be { "min": 0-127, "max": 0-127 } with min <= max`);
+    }
+    return { min: range.min, max: range.max };
+  };
+  const readString = (key: string, fallback: string): string => {
+    const value = data[key];
+    if (value === undefined) return fallback;
+    if (typeof value !== 'string') throw new Error(`"${key}" must be a string`);
+    return value;
+  };
+
+  if (!Array.isArray(data.outputs) || data.outputs.length === 0) {
+    throw new Error('Profile needs at least one entry in "outputs"');
+  }
+  const outputs: DeviceOutput[] = data.outputs.map((raw: Record<string, unknown>, i: number) => {
+    const label = `outputs[${i}]`;
+    if (typeof raw?.id !== 'string' || !/^[\w-]+$/.test(raw.id)) {
+      throw new Error(`${label} needs an "id" made of letters, digits, "_" or "-"`);
+    }
+    if (raw.midiChannel !== undefined && !isInt(raw.midiChannel, 1, 16)) {
+      throw new Error(`${label}.midiChannel must be 1-16`);
+    }
+    if (raw.maxPolyphony !== undefined && !isInt(raw.maxPolyphony, 1)) {
+      throw new Error(`${label}.maxPolyphony must be at least 1`);
+    }
+    return {
+      id: raw.id,
+      name: typeof raw.name === 'string' && raw.name.trim() !== '' ? raw.name : raw.id,
+      midiChannel: raw.midiChannel as number | undefined,
+      noteRange: readRange(raw.noteRange, `${label}.noteRange`),
+      maxPolyphony: raw.maxPolyphony as number | undefined,
+    };
+  });
+  if (new Set(outputs.map(o => o.id)).size !== outputs.length) {
+    throw new Error('Output ids must be unique');
+  }
+
+  const allowedPpq = data.allowedPpq ?? [];
+  if (!Array.isArray(allowedPpq) || !allowedPpq.every(p => isInt(p, 1, 32767))) {
+    throw new Error('"allowedPpq" must be a list of whole numbers between 1 and 32767');
+  }
+
+  return {
+    id: `user-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name: name.trim(),
+    outputs,
+    maxStepsPerClip: readInt('maxStepsPerClip', DEFAULT_PROFILE.maxStepsPerClip, 1),
+    stepsPerBar: readInt('stepsPerBar', DEFAULT_PROFILE.stepsPerBar, 1, 64),
+    allowedPpq,
+    noteRange: readRange(data.noteRange, '"noteRange"') ?? DEFAULT_PROFILE.noteRange,
+    maxPolyphony: data.maxPolyphony === undefined ? undefined : readInt('maxPolyphony', 0, 1),
+    fileNamePattern: readString('fileNamePattern', DEFAULT_PROFILE.fileNamePattern),
+    indexPadding: readInt('indexPadding', DEFAULT_PROFILE.indexPadding, 0, 6),
+    folderPattern: readString('folderPattern', DEFAULT_PROFILE.folderPattern),
+  };
+}
+
+/** JSON for a profile in the format `parseDeviceProfile` reads back. */
+export function serializeDeviceProfile(profile: DeviceProfile): string {
+  const { id, builtIn, ...rest } = profile;
+  return JSON.stringify(rest, null, 2);
+}
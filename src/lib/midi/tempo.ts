@@ -0,0 +1,83 @@
+import type { MIDIEvent, TempoEvent } from './types';
+import { DEFAULT_BPM } from './constants';
+
+const DEFAULT_MICROSECONDS_PER_BEAT = 60000000 / DEFAULT_BPM;
+
+export function createTempoEvent(ticks: number, microsecondsPerBeat: number): TempoEvent {
+  return {
+    ticks,
+    microsecondsPerBeat,
+    bpm: 60000000 / microsecondsPerBeat,
+  };
+}
+
+/**
+ * Collects setTempo meta events from all tracks into a tempo map. The map
+ * always has an entry at tick 0; SMF defaults to 120 BPM until the first
+ * tempo event.
+ */
+export function buildTempoMap(events: MIDIEvent[]): TempoEvent[] {
+  const tempos = events
+    .filter(e => e.type === 'meta' && e.metaType === 'setTempo' && e.data?.length === 3)
+    .map(e => createTempoEvent(e.absoluteTime, (e.data![0] << 16) | (e.data![1] << 8) | e.data![2]))
+    .filter(t => t.microsecondsPerBeat > 0)
+    .sort((a, b) => a.ticks - b.ticks);
+
+  // Several tempo events on one tick: the last one wins
+  const tempoMap: TempoEvent[] = [];
+  tempos.forEach(tempo => {
+    if (tempoMap.length > 0 && tempoMap[tempoMap.length - 1].ticks === tempo.ticks) {
+      tempoMap[tempoMap.length - 1] = tempo;
+    } else {
+      tempoMap.push(tempo);
+    }
+  });
+
+  if (tempoMap.length === 0 || tempoMap[0].ticks > 0) {
+    tempoMap.unshift(createTempoEvent(0, DEFAULT_MICROSECONDS_PER_BEAT));
+  }
+
+  return tempoMap;
+}
+
+export function getTempoAt(tempoMap: TempoEvent[], ticks: number): TempoEvent {
+  let current = tempoMap[0] ?? createTempoEvent(0, DEFAULT_MICROSECONDS_PER_BEAT);
+  for (const tempo of tempoMap) {
+    if (tempo.ticks > ticks) break;
+    current = tempo;
+  }
+  return current;
+}
+
+export function ticksToSeconds(ticks: number, tempoMap: TempoEvent[], ppq: number): number {
+  let seconds = 0;
+  let lastTicks = 0;
+  let microsecondsPerBeat = DEFAULT_MICROSECONDS_PER_BEAT;
+
+  for (const tempo of tempoMap) {
+    if (tempo.ticks >= ticks) break;
+    seconds += ((tempo.ticks - lastTicks) / ppq) * (microsecondsPerBeat / 1000000);
+    lastTicks = tempo.ticks;
+    microsecondsPerBeat = tempo.microsecondsPerBeat;
+  }
+
+  return seconds + ((ticks - lastTicks) / ppq) * (microsecondsPerBeat / 1000000);
+}
+
+/**
+ * Tempo events for a clip covering [startTicks, endTicks), relative to the
+ * clip start: the tempo in effect at the start, followed by every change
+ * that falls inside the range.
+ */
+export function getClipTempoEvents(tempoMap: TempoEvent[], startTicks: number, endTicks: number): TempoEvent[] {
+  const startTempo = getTempoAt(tempoMap, startTicks);
+  const clipTempos = [createTempoEvent(0, startTempo.microsecondsPerBeat)];
+
+  tempoMap.forEach(tempo => {
+    if (tempo.ticks > startTicks && tempo.ticks < endTicks) {
+      clipTempos.push(createTempoEvent(tempo.ticks - startTicks, tempo.microsecondsPerBeat));
+    }
+  });
+
+  return clipTempos;
+}
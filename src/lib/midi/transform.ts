@@ -1,11 +1,158 @@
-import type { MIDITrack, MIDIEvent, OutputTrackConfig } from './types';
-import { TIME_SIGNATURE_NUMERATOR } from './constants';
+import type { MIDITrack, MIDIEvent, OutputTrackConfig, SplitSettings, SplitPoint, ClipRange, TimeSignatureEvent, QuantizeSettings, QuantizeReport, ChaseSettings, TiedNoteSettings, TiedNoteReport, PpqRounding, ResampleReport, PatchSettings, DrumLane, DrumMapSettings, DrumMapReport, PlayableRangeSettings, PlayableRangeReport, PolyphonySettings, PolyphonyReport, VelocitySettings, VelocityReport, SustainSettings, SustainReport } from './types';
+import { DRUM_CHANNEL, NOTE_NAMES, QUARTERS_PER_WHOLE_NOTE, SOSTENUTO_CONTROLLER, SUSTAIN_CONTROLLER, VELOCITY_BUCKET_SIZE } from './constants';
+import { createTrack, getTicksPerStep } from './parser';
+import { barToTicks, getMeterAt, getTicksPerBar, ticksToBarBeat } from './meter';
+import { getInstrumentDisplayName } from './gm-instruments';
+import { DEFAULT_DRUM_LANES, getDrumLane } from './gm-drums';
+
+// Meta events the writer generates for every clip
+const CLIP_LEVEL_META = ['endOfTrack', 'setTempo', 'timeSignature', 'trackName'];
+
+/**
+ * Splits a multi-channel track into one virtual track per channel. Events
+ * without a channel (meta, sysex) stay with the lowest channel's track so
+ * they aren't duplicated when several virtual tracks feed one output.
+ */
+export function explodeTrackByChannel(track: MIDITrack): MIDITrack[] {
+  const channels = Array.from(track.channels).sort((a, b) => a - b);
+
+  return channels.map((channel, i) => {
+    const events = track.events.filter(event =>
+      event.channel === channel ||
+      (i === 0 && event.channel === undefined && event.metaType !== 'trackName')
+    );
+    const virtual = createTrack(events, track.index);
+    const isDrums = channel === DRUM_CHANNEL;
+    const instrument = isDrums
+      ? 'Drums'
+      : virtual.program !== undefined ? getInstrumentDisplayName(virtual.program) : undefined;
+
+    return {
+      ...virtual,
+      name: `${track.name} · Ch ${channel + 1}${instrument ? ` (${instrument})` : ''}`,
+      isDrums,
+      sourceIndex: track.index,
+      channel,
+    };
+  });
+}
+
+/**
+ * Splits a drum track into one virtual track per drum lane that has notes.
+ * Lanes with a target note have every note moved onto it. Non-note events
+ * stay with the first lane's track, as in `explodeTrackByChannel`; notes
+ * that no lane claims are left out.
+ */
+export function explodeDrumTrack(track: MIDITrack, lanes: DrumLane[]): MIDITrack[] {
+  const laneEvents = new Map<string, MIDIEvent[]>(lanes.map(lane => [lane.id, []]));
+  const shared: MIDIEvent[] = [];
+
+  track.events.forEach(event => {
+    if (event.note === undefined) {
+      if (event.metaType !== 'trackName') shared.push(event);
+      return;
+    }
+    const lane = getDrumLane(event.note, lanes);
+    if (!lane) return;
+    laneEvents.get(lane.id)!.push(lane.targetNote !== undefined ? { ...event, note: lane.targetNote } : event);
+  });
+
+  const used = lanes.filter(lane => laneEvents.get(lane.id)!.some(e => e.type === 'noteOn'));
+  return used.map((lane, i) => {
+    const events = i === 0
+      ? [...shared, ...laneEvents.get(lane.id)!].sort((a, b) => a.absoluteTime - b.absoluteTime)
+      : laneEvents.get(lane.id)!;
+    const virtual = createTrack(events, track.index);
+
+    return {
+      ...virtual,
+      name: `${track.name} · ${lane.name}`,
+      isDrums: true,
+      sourceIndex: track.sourceIndex ?? track.index,
+      channel: track.channel,
+      drumLane: lane.id,
+    };
+  });
+}
+
+/**
+ * Builds the working track list shown in the inspector: exploded source
+ * tracks are replaced in place by their per-channel virtual tracks, drum
+ * tracks marked for it are split into lanes, and every track is re-indexed
+ * by its position in the list (`sourceIndex` keeps pointing at the parsed
+ * track).
+ */
+export function buildWorkingTracks(
+  tracks: MIDITrack[],
+  explodedTracks: Set<number>,
+  drumExplodedTracks: Set<number> = new Set(),
+  drumLanes: DrumLane[] = DEFAULT_DRUM_LANES
+): MIDITrack[] {
+  const working = tracks
+    .flatMap(track =>
+      explodedTracks.has(track.index) && track.channels.size > 1
+        ? explodeTrackByChannel(track)
+        : [track]
+    )
+    .flatMap(track =>
+      track.isDrums && drumExplodedTracks.has(track.sourceIndex ?? track.index)
+        ? explodeDrumTrack(track, drumLanes)
+        : [track]
+    );
+  return working.map((track, index) => ({
+    ...track,
+    index,
+    sourceIndex: track.sourceIndex ?? track.index,
+  }));
+}
+
+/**
+ * Re-points output configs at a new working track list. A source track that
+ * was exploded maps to all of its virtual tracks; virtual tracks that were
+ * merged back map to their source track.
+ */
+export function remapConfigTracks(
+  configs: Map<string, OutputTrackConfig>,
+  oldTracks: MIDITrack[],
+  newTracks: MIDITrack[]
+): Map<string, OutputTrackConfig> {
+  const sourceOf = (track: MIDITrack) => track.sourceIndex ?? track.index;
+  const remapped = new Map<string, OutputTrackConfig>();
+
+  configs.forEach((config, key) => {
+    const sourceTracks = new Set<number>();
+    config.sourceTracks.forEach(trackIndex => {
+      const oldTrack = oldTracks[trackIndex];
+      if (!oldTrack) return;
+
+      const source = sourceOf(oldTrack);
+      // Closest match first: same channel and drum lane, then same channel
+      // (a lane merged back, or a track split into lanes), then the whole source
+      const sameSource = newTracks.filter(t => sourceOf(t) === source);
+      const sameChannel = sameSource.filter(t => t.channel === oldTrack.channel);
+      const exact = sameChannel.filter(t => t.drumLane === oldTrack.drumLane);
+      const candidates = [exact, sameChannel, sameSource].find(c => c.length > 0) ?? [];
+      candidates.forEach(t => sourceTracks.add(t.index));
+    });
+
+    if (sourceTracks.size > 0) {
+      remapped.set(key, { ...config, sourceTracks: Array.from(sourceTracks).sort((a, b) => a - b) });
+    }
+  });
+
+  return remapped;
+}
 
 export function mergeTracks(
   tracks: MIDITrack[],
   config: OutputTrackConfig
 ): MIDIEvent[] {
   const mergedEvents: MIDIEvent[] = [];
+  const hasFixedProgram = config.patch?.program !== undefined;
+  // A source bank select only takes effect at a program change, so a fixed
+  // program replaces it too; otherwise it would follow the patch and never apply
+  const hasFixedBank = hasFixedProgram || config.patch?.bankMsb !== undefined || config.patch?.bankLsb !== undefined;
+  const noteFilter = config.noteFilter?.enabled ? config.noteFilter : undefined;
 
   config.sourceTracks.forEach(trackIndex => {
     const track = tracks[trackIndex];
@@ -24,12 +171,36 @@ export function mergeTracks(
         return;
       }
 
-      // Filter out unsupported events
-      if (event.type === 'sysex' || event.type === 'unknown') {
+      // A fixed patch replaces the source's own program and bank changes
+      if (hasFixedProgram && event.type === 'programChange') {
+        return;
+      }
+      if (hasFixedBank && event.type === 'cc' && (event.controller === 0 || event.controller === 32)) {
+        return;
+      }
+
+      // Filter out unsupported events; each clip gets its own end-of-track,
+      // and tempo / meter are written per clip from the song's maps
+      if (event.type === 'unknown' || (event.type === 'meta' && CLIP_LEVEL_META.includes(event.metaType!))) {
         return;
       }
 
-      mergedEvents.push({ ...event });
+      const merged = { ...event };
+
+      // Keyboard split: keep the output's slice of the keyboard, then transpose it
+      if (noteFilter && event.note !== undefined) {
+        const note = event.note + noteFilter.transpose;
+        if (event.note < noteFilter.low || event.note > noteFilter.high || note < 0 || note > 127) {
+          return;
+        }
+        merged.note = note;
+      }
+
+      if (config.outputChannel !== undefined && event.channel !== undefined) {
+        merged.channel = config.outputChannel;
+      }
+
+      mergedEvents.push(merged);
     });
   });
 
@@ -46,27 +217,292 @@ export function mergeTracks(
   return mergedEvents;
 }
 
-export function splitEventsBySteps(
+/**
+ * Writes the sustain pedal into note lengths for devices that ignore CC64.
+ * A key released while the pedal is down keeps sounding until the pedal
+ * lifts or the same key is struck again, which ends it just before the new
+ * note. With sostenuto, CC66 holds only the keys down at the moment it is
+ * pressed. The baked pedals are stripped; notes the pedal still holds at the
+ * end stop at the last event.
+ */
+export function bakeSustain(
   events: MIDIEvent[],
-  maxSteps: number,
-  ppq: number,
-  stepsPerBar: number
-): MIDIEvent[][] {
-  if (events.length === 0) return [[]];
+  settings: SustainSettings
+): { events: MIDIEvent[]; report: SustainReport } {
+  const report: SustainReport = { extended: 0, pedalEvents: 0 };
+  if (!settings.enabled || events.length === 0) return { events, report };
 
-  const ticksPerStep = (ppq * TIME_SIGNATURE_NUMERATOR) / stepsPerBar;
-  const maxTicks = maxSteps * ticksPerStep;
+  // noteOff is set once the key is up and only a pedal holds the note
+  type HeldNote = { noteOn: MIDIEvent; noteOff?: MIDIEvent; sostenuto: boolean };
+  const sounding = new Map<string, HeldNote[]>();
+  const sustainDown = new Set<number | undefined>();
+  const sostenutoDown = new Set<number | undefined>();
+  const baked: MIDIEvent[] = [];
 
-  // Calculate total duration
-  const lastEvent = events[events.length - 1];
-  const totalTicks = lastEvent.absoluteTime;
-  
-  if (totalTicks <= maxTicks) {
-    return [events];
+  const release = (held: HeldNote, ticks: number) => {
+    if (ticks > held.noteOff!.absoluteTime) report.extended++;
+    baked.push({ ...held.noteOff!, absoluteTime: ticks });
+  };
+  const isHeld = (held: HeldNote) => {
+    const channel = held.noteOn.channel;
+    return sustainDown.has(channel) || (held.sostenuto && sostenutoDown.has(channel));
+  };
+  // After a pedal lifts: end the released notes on its channel nothing holds any more
+  const releaseChannel = (channel: number | undefined, ticks: number) => {
+    sounding.forEach((notes, key) => {
+      const ended = notes.filter(held => held.noteOn.channel === channel && held.noteOff && !isHeld(held));
+      ended.forEach(held => release(held, ticks));
+      sounding.set(key, notes.filter(held => !ended.includes(held)));
+    });
+  };
+
+  events.forEach(event => {
+    const key = `${event.channel}-${event.note}`;
+    if (event.type === 'noteOn') {
+      const notes = sounding.get(key) ?? [];
+      notes.filter(held => held.noteOff).forEach(held => release(held, event.absoluteTime));
+      sounding.set(key, [...notes.filter(held => !held.noteOff), { noteOn: event, sostenuto: false }]);
+      baked.push({ ...event });
+    } else if (event.type === 'noteOff') {
+      const notes = sounding.get(key) ?? [];
+      const held = notes.find(n => !n.noteOff);
+      if (held && isHeld(held)) {
+        held.noteOff = event;
+        return;
+      }
+      if (held) sounding.set(key, notes.filter(n => n !== held));
+      baked.push({ ...event });
+    } else if (event.type === 'cc' && (event.controller === SUSTAIN_CONTROLLER || (settings.sostenuto && event.controller === SOSTENUTO_CONTROLLER))) {
+      report.pedalEvents++;
+      const down = event.value! >= 64;
+      const pedal = event.controller === SUSTAIN_CONTROLLER ? sustainDown : sostenutoDown;
+      if (pedal === sostenutoDown && down !== sostenutoDown.has(event.channel)) {
+        // Pressing catches the keys held right now; lifting lets them all go
+        sounding.forEach(notes => notes.forEach(held => {
+          if (held.noteOn.channel === event.channel) held.sostenuto = down && !held.noteOff;
+        }));
+      }
+      if (down) {
+        pedal.add(event.channel);
+      } else {
+        pedal.delete(event.channel);
+        releaseChannel(event.channel, event.absoluteTime);
+      }
+    } else {
+      baked.push({ ...event });
+    }
+  });
+
+  const endTicks = events[events.length - 1].absoluteTime;
+  sounding.forEach(notes => notes.filter(held => held.noteOff).forEach(held => release(held, endTicks)));
+
+  return { events: recalculateDeltaTimes(baked), report };
+}
+
+/**
+ * Moves every note onto the target kit's note for it. Notes the map has no
+ * entry for are kept (or dropped) and reported, never silently passed on.
+ */
+export function applyDrumMap(
+  events: MIDIEvent[],
+  settings: DrumMapSettings
+): { events: MIDIEvent[]; report: DrumMapReport } {
+  const unmapped = new Set<number>();
+  const report: DrumMapReport = { mapped: 0, unmapped: [], dropped: 0 };
+
+  const mapped = events.flatMap(event => {
+    if (event.note === undefined) return [event];
+    const target = settings.map.notes[event.note];
+    if (target === undefined) {
+      unmapped.add(event.note);
+      if (event.type === 'noteOn' && settings.dropUnmapped) report.dropped++;
+      return settings.dropUnmapped ? [] : [event];
+    }
+    if (event.type === 'noteOn') report.mapped++;
+    return [{ ...event, note: target }];
+  });
+
+  report.unmapped = Array.from(unmapped).sort((a, b) => a - b);
+  return { events: mapped, report };
+}
+
+/**
+ * Brings notes into an output's playable range. Fold and clamp move each
+ * pitch on its own (a range narrower than an octave folds, then clamps);
+ * transpose shifts the whole output by the octave count that leaves the
+ * fewest notes outside. noteOffs follow their noteOns since every mode maps
+ * a pitch to the same result.
+ */
+export function fitToRange(
+  events: MIDIEvent[],
+  settings: PlayableRangeSettings
+): { events: MIDIEvent[]; report: PlayableRangeReport } {
+  const { mode, low, high } = settings;
+  const isOutside = (note: number) => note < low || note > high;
+  const noteOns = events.filter(e => e.type === 'noteOn' && e.note !== undefined).map(e => e.note!);
+  const report: PlayableRangeReport = {
+    outsideBefore: noteOns.filter(isOutside).length,
+    outsideAfter: 0,
+    moved: 0,
+    dropped: 0,
+    transpose: 0,
+  };
+  if (report.outsideBefore === 0) return { events, report };
+
+  if (mode === 'transpose') {
+    // Only shifts that keep every note inside 0-127; ties go to the smaller shift
+    const minNote = Math.min(...noteOns);
+    const maxNote = Math.max(...noteOns);
+    let best = { shift: 0, outside: report.outsideBefore };
+    for (let octaves = 1; octaves <= 10; octaves++) {
+      for (const shift of [octaves * 12, -octaves * 12]) {
+        if (minNote + shift < 0 || maxNote + shift > 127) continue;
+        const outside = noteOns.filter(note => isOutside(note + shift)).length;
+        if (outside < best.outside) best = { shift, outside };
+      }
+    }
+    report.transpose = best.shift;
   }
 
-  // Build a complete map of active notes at any point in time
-  const noteLifecycles = new Map<string, { noteOn: MIDIEvent; noteOff?: MIDIEvent }[]>();
+  const fit = (note: number): number | null => {
+    if (mode === 'transpose') return note + report.transpose;
+    if (!isOutside(note)) return note;
+    if (mode === 'drop') return null;
+    let fitted = note;
+    if (mode === 'fold') {
+      while (fitted < low && fitted + 12 <= 127) fitted += 12;
+      while (fitted > high && fitted - 12 >= 0) fitted -= 12;
+    }
+    return Math.max(low, Math.min(high, fitted));
+  };
+
+  const fitted = events.flatMap(event => {
+    if (event.note === undefined) return [event];
+    const note = fit(event.note);
+    if (event.type === 'noteOn') {
+      if (note === null) report.dropped++;
+      else if (note !== event.note) report.moved++;
+      if (note !== null && isOutside(note)) report.outsideAfter++;
+    }
+    return note === null ? [] : [{ ...event, note }];
+  });
+
+  return { events: fitted, report };
+}
+
+/** NoteOn count per velocity bucket, for before/after histograms. */
+export function getVelocityHistogram(events: MIDIEvent[]): number[] {
+  const buckets = new Array(Math.ceil(128 / VELOCITY_BUCKET_SIZE)).fill(0);
+  events.forEach(event => {
+    if (event.type === 'noteOn' && event.velocity !== undefined) {
+      buckets[Math.floor(event.velocity / VELOCITY_BUCKET_SIZE)]++;
+    }
+  });
+  return buckets;
+}
+
+/**
+ * Reshapes note velocities for devices that ignore them or only know an
+ * accent. Ghost notes are dropped and accents picked from the source
+ * velocity, so a fixed velocity still keeps the accents; accented notes are
+ * only flagged here and written by `addAccents`. Results stay in 1-127 so
+ * no noteOn turns into a noteOff.
+ */
+export function applyVelocity(
+  events: MIDIEvent[],
+  settings: VelocitySettings
+): { events: MIDIEvent[]; report: VelocityReport } {
+  const report: VelocityReport = { before: getVelocityHistogram(events), after: [], dropped: 0, accents: 0 };
+
+  const shape = (velocity: number): number => {
+    const x = velocity / 127;
+    switch (settings.mode) {
+      case 'fixed':
+        return settings.fixed;
+      case 'scale':
+        return velocity * settings.scale / 100 + settings.offset;
+      case 'compress': {
+        const target = settings.low + x * (settings.high - settings.low);
+        return velocity + (target - velocity) * settings.amount / 100;
+      }
+      case 'curve':
+        if (settings.curve === 'soft') return 127 * Math.pow(x, 0.6);
+        if (settings.curve === 'hard') return 127 * Math.pow(x, 1.6);
+        return 127 * x * x * (3 - 2 * x);
+      default:
+        return velocity;
+    }
+  };
+
+  const dropped = new Set<MIDIEvent>();
+  const accented = new Set<MIDIEvent>();
+  buildNoteLifecycles(events).forEach(lifecycle => {
+    lifecycle.forEach(({ noteOn, noteOff }) => {
+      const velocity = noteOn.velocity ?? 0;
+      if (velocity < settings.ghostThreshold) {
+        dropped.add(noteOn);
+        if (noteOff) dropped.add(noteOff);
+        report.dropped++;
+      } else if (settings.accent.enabled && velocity >= settings.accent.threshold) {
+        accented.add(noteOn);
+        if (noteOff) accented.add(noteOff);
+      }
+    });
+  });
+
+  const shaped = events.flatMap(event => {
+    if (dropped.has(event)) return [];
+    if (event.type !== 'noteOn' && event.type !== 'noteOff') return [{ ...event }];
+
+    const isAccent = accented.has(event);
+    if (isAccent && event.type === 'noteOn') report.accents++;
+    const velocity = event.type === 'noteOn'
+      ? Math.max(1, Math.min(127, Math.round(shape(event.velocity ?? 0))))
+      : event.velocity;
+    return [{ ...event, velocity, accent: isAccent || undefined }];
+  });
+
+  report.after = getVelocityHistogram(shaped);
+  return { events: shaped, report };
+}
+
+/**
+ * Writes the accents `applyVelocity` flagged. It runs after the voice
+ * limiter so accent notes never take a voice from a played note. The accent
+ * CC goes before every noteOn (once per tick), so each clip starts with its
+ * own accent state whichever clip the device played before.
+ */
+export function addAccents(
+  events: MIDIEvent[],
+  accent: VelocitySettings['accent']
+): MIDIEvent[] {
+  if (!accent.enabled) return events;
+
+  let lastCc: { ticks: number; value: number } | undefined;
+  const accented = events.flatMap(event => {
+    if (event.type !== 'noteOn' && event.type !== 'noteOff') return [event];
+    if (accent.target === 'cc') {
+      if (event.type === 'noteOff') return [event];
+      const value = event.accent ? 127 : 0;
+      if (lastCc?.ticks === event.absoluteTime && lastCc.value === value) return [event];
+      lastCc = { ticks: event.absoluteTime, value };
+      return [{ ...event, type: 'cc' as const, controller: accent.controller, value, note: undefined, velocity: undefined, accent: undefined }, event];
+    }
+    if (!event.accent) return [event];
+    return [event, { ...event, note: accent.note, velocity: event.type === 'noteOn' ? 127 : 0, accent: undefined }];
+  });
+
+  return recalculateDeltaTimes(accented);
+}
+
+export type NoteLifecycle = { noteOn: MIDIEvent; noteOff?: MIDIEvent };
+
+/**
+ * Pairs every noteOn with its noteOff, keyed by "channel-note". Notes that
+ * never get a noteOff keep `noteOff` undefined.
+ */
+export function buildNoteLifecycles(events: MIDIEvent[]): Map<string, NoteLifecycle[]> {
+  const noteLifecycles = new Map<string, NoteLifecycle[]>();
   
   events.forEach(event => {
     if (event.type !== 'noteOn' && event.type !== 'noteOff') return;
@@ -89,18 +525,245 @@ export function splitEventsBySteps(
     }
   });
 
+  return noteLifecycles;
+}
+
+/**
+ * Most notes sounding at once. A noteOff frees its voice before a noteOn at
+ * the same tick takes one; notes without a noteOff are held to the end.
+ */
+export function getPeakPolyphony(events: MIDIEvent[]): number {
+  const changes: { ticks: number; delta: number }[] = [];
+  buildNoteLifecycles(events).forEach(lifecycle => {
+    lifecycle.forEach(({ noteOn, noteOff }) => {
+      changes.push({ ticks: noteOn.absoluteTime, delta: 1 });
+      if (noteOff) changes.push({ ticks: noteOff.absoluteTime, delta: -1 });
+    });
+  });
+  changes.sort((a, b) => a.ticks - b.ticks || a.delta - b.delta);
+
+  let sounding = 0;
+  let peak = 0;
+  changes.forEach(({ delta }) => {
+    sounding += delta;
+    peak = Math.max(peak, sounding);
+  });
+  return peak;
+}
+
+/**
+ * Plays the output through a fixed number of voices. When every voice is
+ * busy the steal policy decides whether the new note takes one (cutting the
+ * held note off at its start) or is dropped. Notes cut at the tick they
+ * start are dropped rather than left zero-length.
+ */
+export function limitPolyphony(
+  events: MIDIEvent[],
+  settings: PolyphonySettings
+): { events: MIDIEvent[]; report: PolyphonyReport } {
+  const peakBefore = getPeakPolyphony(events);
+  const report: PolyphonyReport = { peakBefore, peakAfter: peakBefore, shortened: 0, dropped: 0 };
+  const maxVoices = Math.max(1, settings.maxVoices);
+  if (!settings.enabled || peakBefore <= maxVoices) {
+    return { events, report };
+  }
+
+  type Voice = { lifecycle: NoteLifecycle; end: number };
+  const order = new Map(events.map((event, i) => [event, i]));
+  const lifecycles = Array.from(buildNoteLifecycles(events).values())
+    .flat()
+    .sort((a, b) => a.noteOn.absoluteTime - b.noteOn.absoluteTime || order.get(a.noteOn)! - order.get(b.noteOn)!);
+
+  const dropped = new Set<MIDIEvent>();
+  const cuts = new Map<NoteLifecycle, MIDIEvent>(); // cut note -> the noteOn that took its voice
+  let voices: Voice[] = [];
+
+  lifecycles.forEach(lifecycle => {
+    const start = lifecycle.noteOn.absoluteTime;
+    const note = lifecycle.noteOn.note!;
+    voices = voices.filter(voice => voice.end > start);
+    if (voices.length < maxVoices) {
+      voices.push({ lifecycle, end: lifecycle.noteOff?.absoluteTime ?? Infinity });
+      return;
+    }
+
+    const pitch = (voice: Voice) => voice.lifecycle.noteOn.note!;
+    let victim: Voice | undefined;
+    if (settings.steal === 'last') {
+      victim = voices[0];
+    } else if (settings.steal === 'highest') {
+      const lowest = voices.reduce((a, b) => pitch(b) < pitch(a) ? b : a);
+      if (note > pitch(lowest)) victim = lowest;
+    } else if (settings.steal === 'lowest') {
+      const highest = voices.reduce((a, b) => pitch(b) > pitch(a) ? b : a);
+      if (note < pitch(highest)) victim = highest;
+    }
+
+    const drop = ({ noteOn, noteOff }: NoteLifecycle) => {
+      dropped.add(noteOn);
+      if (noteOff) dropped.add(noteOff);
+      report.dropped++;
+    };
+    if (!victim) {
+      drop(lifecycle);
+      return;
+    }
+
+    if (victim.lifecycle.noteOn.absoluteTime === start) {
+      drop(victim.lifecycle);
+    } else {
+      cuts.set(victim.lifecycle, lifecycle.noteOn);
+      report.shortened++;
+    }
+    voices = voices.filter(voice => voice !== victim);
+    voices.push({ lifecycle, end: lifecycle.noteOff?.absoluteTime ?? Infinity });
+  });
+
+  // A cut note ends on the tick the new note starts. Its noteOff goes just
+  // before that noteOn, or just after it for mono legato, so the device sees
+  // the overlap through event order alone and it survives PPQ rescaling.
+  // A re-struck pitch always releases first so the noteOff can't end the new note.
+  const insertBefore = new Map<MIDIEvent, MIDIEvent[]>();
+  const insertAfter = new Map<MIDIEvent, MIDIEvent[]>();
+  cuts.forEach((by, { noteOn, noteOff }) => {
+    if (noteOff) dropped.add(noteOff);
+    const cut = { ...(noteOff ?? { ...noteOn, type: 'noteOff' as const, velocity: 0 }), absoluteTime: by.absoluteTime };
+    const legato = settings.legato && maxVoices === 1 && noteOn.note !== by.note;
+    const insert = legato ? insertAfter : insertBefore;
+    insert.set(by, [...(insert.get(by) ?? []), cut]);
+  });
+
+  const limited = events.flatMap(event => [
+    ...(insertBefore.get(event) ?? []),
+    ...(dropped.has(event) ? [] : [{ ...event }]),
+    ...(insertAfter.get(event) ?? []),
+  ]);
+  const result = recalculateDeltaTimes(limited);
+  report.peakAfter = getPeakPolyphony(result);
+  return { events: result, report };
+}
+
+export function splitEventsBySteps(
+  events: MIDIEvent[],
+  maxSteps: number,
+  ppq: number,
+  stepsPerBar: number
+): MIDIEvent[][] {
+  if (events.length === 0) return [[]];
+
+  const maxTicks = maxSteps * getTicksPerStep(ppq, stepsPerBar);
+  const totalTicks = events[events.length - 1].absoluteTime;
+
+  return splitEventsByRanges(events, getFixedClipRanges(0, totalTicks, maxTicks));
+}
+
+export interface SplitOptions {
+  chase?: ChaseSettings;
+  tiedNotes?: TiedNoteSettings;
+  patch?: PatchSettings;
+}
+
+/**
+ * Decides what happens to each note that crosses a clip boundary under the
+ * tied-note policy. Returns the source events the splitter must leave out,
+ * the noteOffs that stay in the clip their note started in, and counts of
+ * affected notes.
+ */
+export function resolveTiedNotes(
+  events: MIDIEvent[],
+  ranges: ClipRange[],
+  settings: TiedNoteSettings = { policy: 'retrigger', dropWindowTicks: 0 }
+): { skipped: Set<MIDIEvent>; extendedNoteOffs: Map<MIDIEvent, number>; report: TiedNoteReport } {
+  const skipped = new Set<MIDIEvent>();
+  const extendedNoteOffs = new Map<MIDIEvent, number>(); // noteOff -> owner range index
+  const report: TiedNoteReport = { retriggered: 0, truncated: 0, extended: 0, dropped: 0 };
+
+  const rangeIndexAt = (ticks: number): number => {
+    let index = 0;
+    ranges.forEach((range, i) => {
+      if (range.start <= ticks) index = i;
+    });
+    return index;
+  };
+
+  buildNoteLifecycles(events).forEach(lifecycle => {
+    lifecycle.forEach(({ noteOn, noteOff }) => {
+      const owner = rangeIndexAt(noteOn.absoluteTime);
+      // The last clip takes everything after it, so nothing crosses its end
+      if (owner >= ranges.length - 1) return;
+
+      const ownerEnd = ranges[owner].end;
+      if (noteOff && noteOff.absoluteTime < ownerEnd) return;
+
+      switch (settings.policy) {
+        case 'truncate':
+          // Closed at the boundary by the splitter; the original noteOff would dangle
+          if (noteOff) skipped.add(noteOff);
+          report.truncated++;
+          break;
+        case 'extend':
+          if (noteOff) extendedNoteOffs.set(noteOff, owner);
+          report.extended++;
+          break;
+        case 'dropLate':
+          if (noteOn.absoluteTime >= ownerEnd - settings.dropWindowTicks) {
+            skipped.add(noteOn);
+            if (noteOff) skipped.add(noteOff);
+            report.dropped++;
+          } else {
+            report.retriggered++;
+          }
+          break;
+        default:
+          report.retriggered++;
+      }
+    });
+  });
+
+  return { skipped, extendedNoteOffs, report };
+}
+
+/**
+ * Cuts events into one chunk per clip range, with times relative to the
+ * range start. Notes held across a boundary follow the tied-note policy:
+ * by default they are closed just before the end of their clip and
+ * re-triggered at the start of the next one. The last range also takes any
+ * events at or after its end.
+ */
+export function splitEventsByRanges(
+  events: MIDIEvent[],
+  ranges: ClipRange[],
+  options: SplitOptions = {}
+): MIDIEvent[][] {
+  if (events.length === 0) return [[]];
+
+  // Build a complete map of active notes at any point in time
+  const noteLifecycles = buildNoteLifecycles(events);
+  const policy = options.tiedNotes?.policy ?? 'retrigger';
+  const { skipped, extendedNoteOffs } = resolveTiedNotes(events, ranges, options.tiedNotes);
+  const retriggers = policy === 'retrigger' || policy === 'dropLate';
+  const patchChannel = events.find(e => e.channel !== undefined)?.channel ?? 0;
+
   // Split into chunks with proper note handling
   const chunks: MIDIEvent[][] = [];
-  let currentChunkStart = 0;
 
-  while (currentChunkStart < totalTicks) {
-    const chunkEnd = currentChunkStart + maxTicks;
+  ranges.forEach((range, rangeIndex) => {
+    const currentChunkStart = range.start;
+    const isLastChunk = rangeIndex === ranges.length - 1;
+    const chunkEnd = isLastChunk ? Infinity : range.end;
     const chunkEvents: MIDIEvent[] = [];
     const notesToContinue = new Set<string>(); // Notes that continue into next chunk
 
     // First pass: collect all events in this chunk
     events.forEach(event => {
-      if (event.absoluteTime >= currentChunkStart && event.absoluteTime < chunkEnd) {
+      if (skipped.has(event)) return;
+
+      const owner = extendedNoteOffs.get(event);
+      const belongsHere = owner !== undefined
+        ? owner === rangeIndex
+        : event.absoluteTime >= currentChunkStart && event.absoluteTime < chunkEnd;
+
+      if (belongsHere) {
         chunkEvents.push({
           ...event,
           absoluteTime: event.absoluteTime - currentChunkStart,
@@ -108,15 +771,27 @@ export function splitEventsBySteps(
       }
     });
 
+    // Restore controller / bend / program state ahead of everything else at tick 0
+    if (options.chase?.enabled && currentChunkStart > 0) {
+      chunkEvents.unshift(...chaseStateAt(events, currentChunkStart, options.chase));
+    }
+
+    // The output's patch goes before everything, so chased controllers apply to it
+    if (options.patch) {
+      chunkEvents.unshift(...patchEvents(options.patch, patchChannel));
+    }
+
     // Second pass: handle cross-boundary notes
     noteLifecycles.forEach((lifecycle, noteKey) => {
       lifecycle.forEach(({ noteOn, noteOff }) => {
+        if (skipped.has(noteOn)) return;
+
         const noteStartsBeforeChunk = noteOn.absoluteTime < currentChunkStart;
         const noteEndsAfterChunkStart = !noteOff || noteOff.absoluteTime > currentChunkStart;
         const noteEndsAfterChunkEnd = !noteOff || noteOff.absoluteTime >= chunkEnd;
 
         // Note started before this chunk and is still playing at chunk start
-        if (noteStartsBeforeChunk && noteEndsAfterChunkStart) {
+        if (noteStartsBeforeChunk && noteEndsAfterChunkStart && retriggers) {
           // Insert synthetic noteOn at chunk start
           chunkEvents.push({
             type: 'noteOn',
@@ -129,15 +804,18 @@ export function splitEventsBySteps(
 
           // If note ends within this chunk, the noteOff is already added
           // If note continues beyond chunk, mark it for closing
-          if (noteEndsAfterChunkEnd) {
+          if (noteEndsAfterChunkEnd && !isLastChunk) {
             notesToContinue.add(noteKey);
           }
         }
 
-        // Note starts in this chunk but ends after chunk boundary
+        // Note starts in this chunk but ends after chunk boundary; extended
+        // notes keep their own noteOff instead
         if (noteOn.absoluteTime >= currentChunkStart && 
             noteOn.absoluteTime < chunkEnd && 
-            noteEndsAfterChunkEnd) {
+            noteEndsAfterChunkEnd &&
+            !isLastChunk &&
+            !(policy === 'extend' && noteOff)) {
           notesToContinue.add(noteKey);
         }
       });
@@ -149,7 +827,7 @@ export function splitEventsBySteps(
       chunkEvents.push({
         type: 'noteOff',
         deltaTime: 0,
-        absoluteTime: maxTicks - 1,
+        absoluteTime: range.end - range.start - 1,
         channel,
         note,
         velocity: 0,
@@ -167,13 +845,471 @@ export function splitEventsBySteps(
     });
 
     chunks.push(chunkEvents);
-    currentChunkStart = chunkEnd;
-  }
+  });
 
   return chunks;
 }
 
+/**
+ * Last known program, controller and pitch bend values per channel before
+ * `ticks`, as events at tick 0. Values the source sets again exactly at
+ * `ticks` are skipped since the clip already starts with them.
+ */
+function chaseStateAt(events: MIDIEvent[], ticks: number, settings: ChaseSettings): MIDIEvent[] {
+  const state = new Map<string, MIDIEvent>();
+  const keyOf = (event: MIDIEvent): string | null => {
+    if (event.channel === undefined) return null;
+    if (event.type === 'programChange' && settings.program) return `${event.channel}-program`;
+    if (event.type === 'pitchBend' && settings.pitchBend) return `${event.channel}-bend`;
+    if (event.type === 'cc' && event.controller !== undefined &&
+        (settings.controllers.length === 0 || settings.controllers.includes(event.controller))) {
+      return `${event.channel}-cc${event.controller}`;
+    }
+    return null;
+  };
+
+  const setAtStart = new Set<string>();
+  events.forEach(event => {
+    const key = keyOf(event);
+    if (!key) return;
+    if (event.absoluteTime < ticks) {
+      state.set(key, event);
+    } else if (event.absoluteTime === ticks) {
+      setAtStart.add(key);
+    }
+  });
+
+  // Bank select, then program change (devices apply a bank at the next
+  // program), then the other controllers so they apply to the new patch
+  const rank = (event: MIDIEvent): number => {
+    if (event.type === 'cc' && event.controller === 0) return 0;
+    if (event.type === 'cc' && event.controller === 32) return 1;
+    if (event.type === 'programChange') return 2;
+    if (event.type === 'cc') return 3;
+    return 4;
+  };
+  const chased = Array.from(state.entries())
+    .filter(([key]) => !setAtStart.has(key))
+    .map(([, event]) => ({ ...event, absoluteTime: 0, deltaTime: 0 }));
+  chased.sort((a, b) => rank(a) - rank(b));
+  return chased;
+}
+
+/** Bank select (MSB, then LSB) and program change at tick 0, for whichever parts are set. */
+function patchEvents(patch: PatchSettings, channel: number): MIDIEvent[] {
+  const base = { absoluteTime: 0, deltaTime: 0, channel };
+  const events: MIDIEvent[] = [];
+  if (patch.bankMsb !== undefined) events.push({ ...base, type: 'cc', controller: 0, value: patch.bankMsb });
+  if (patch.bankLsb !== undefined) events.push({ ...base, type: 'cc', controller: 32, value: patch.bankLsb });
+  if (patch.program !== undefined) events.push({ ...base, type: 'programChange', program: patch.program });
+  return events;
+}
+
+/** Back-to-back ranges of `maxTicks` from `startTicks`; the last one ends at `endTicks`. */
+export function getFixedClipRanges(startTicks: number, endTicks: number, maxTicks: number): ClipRange[] {
+  const ranges: ClipRange[] = [];
+  let start = startTicks;
+
+  do {
+    const end = Math.min(start + maxTicks, endTicks);
+    ranges.push({ start, end });
+    start += maxTicks;
+  } while (start < endTicks);
+
+  return ranges;
+}
+
+/**
+ * Chooses clip boundaries for an output's events. User split points (and
+ * markers, with the 'markers' strategy) divide the song into sections; the
+ * split strategy then cuts each section so no clip exceeds
+ * `maxStepsPerClip`. Clips cover `startTicks` up to `endTicks` (by
+ * default the last event).
+ */
+export function computeClipRanges(
+  events: MIDIEvent[],
+  settings: SplitSettings,
+  ppq: number,
+  meterMap: TimeSignatureEvent[],
+  markerTicks: number[] = [],
+  startTicks = 0,
+  endTicks?: number
+): ClipRange[] {
+  const totalTicks = endTicks ?? (events.length > 0 ? events[events.length - 1].absoluteTime : 0);
+  if (startTicks > 0 && startTicks >= totalTicks) return [];
+  const ticksPerStep = getTicksPerStep(ppq, settings.stepsPerBar);
+  const maxTicks = settings.maxStepsPerClip * ticksPerStep;
+
+  const sectionTicks = [
+    ...settings.splitPoints.map(point => splitPointToTicks(point, meterMap, ppq, settings.stepsPerBar)),
+    ...(settings.splitStrategy === 'markers' ? markerTicks : []),
+  ];
+  const sectionStarts = Array.from(new Set([startTicks, ...sectionTicks.filter(t => t > startTicks && t < totalTicks)]))
+    .sort((a, b) => a - b);
+
+  const nextBarLine = (ticks: number) =>
+    barToTicks(ticksToBarBeat(ticks, meterMap, ppq).bar + 1, meterMap, ppq);
+  const notes = settings.splitStrategy === 'minHeldNotes'
+    ? Array.from(buildNoteLifecycles(events).values()).flat()
+    : [];
+
+  const splitSection = (sectionStart: number, sectionEnd: number): ClipRange[] => {
+    if (settings.splitStrategy === 'fixed' || settings.splitStrategy === 'markers') {
+      return getFixedClipRanges(sectionStart, sectionEnd, maxTicks);
+    }
+
+    const ranges: ClipRange[] = [];
+    let start = sectionStart;
+
+    do {
+      const limit = start + maxTicks;
+      if (limit >= sectionEnd) {
+        ranges.push({ start, end: sectionEnd });
+        break;
+      }
+
+      // Bar lines that keep the clip within the limit
+      const barLines: number[] = [];
+      for (let bar = nextBarLine(start); bar <= limit; bar = nextBarLine(bar)) {
+        barLines.push(bar);
+      }
+
+      let end: number;
+      if (settings.splitStrategy === 'bars') {
+        end = barLines.length > 0 ? barLines[barLines.length - 1] : limit;
+      } else {
+        // Look in the second half of the window so clips don't fragment,
+        // preferring bar lines and falling back to the step grid
+        const windowStart = start + maxTicks / 2;
+        let candidates = barLines.filter(t => t >= windowStart);
+        if (candidates.length === 0) {
+          candidates = [];
+          for (let t = Math.ceil(windowStart / ticksPerStep) * ticksPerStep; t <= limit; t += ticksPerStep) {
+            candidates.push(t);
+          }
+        }
+
+        const heldAt = (ticks: number) => notes.filter(({ noteOn, noteOff }) =>
+          noteOn.absoluteTime < ticks && (!noteOff || noteOff.absoluteTime > ticks)
+        ).length;
+
+        // Fewest held notes wins; ties go to the later boundary
+        end = limit;
+        let fewestHeld = Infinity;
+        candidates.forEach(candidate => {
+          const held = heldAt(candidate);
+          if (held <= fewestHeld) {
+            fewestHeld = held;
+            end = candidate;
+          }
+        });
+      }
+
+      ranges.push({ start, end });
+      start = end;
+    } while (start < sectionEnd);
+
+    return ranges;
+  };
+
+  return sectionStarts.flatMap((start, i) => {
+    const end = i + 1 < sectionStarts.length ? sectionStarts[i + 1] : totalTicks;
+    return splitSection(start, end);
+  });
+}
+
+/** The crop window in ticks, or null when the whole song is exported. */
+export function getCropTicks(
+  settings: SplitSettings,
+  ppq: number,
+  meterMap: TimeSignatureEvent[]
+): ClipRange | null {
+  if (!settings.crop) return null;
+  const start = splitPointToTicks(settings.crop.start, meterMap, ppq, settings.stepsPerBar);
+  const end = splitPointToTicks(settings.crop.end, meterMap, ppq, settings.stepsPerBar);
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Keeps the events inside `window`, at their song positions. Notes are cut
+ * at both edges exactly as at a clip boundary, under the same tied-note
+ * policy, and controller state is chased to the window start.
+ */
+export function cropEvents(events: MIDIEvent[], window: ClipRange, options: SplitOptions = {}): MIDIEvent[] {
+  if (events.length === 0) return events;
+  const ranges = [
+    ...(window.start > 0 ? [{ start: 0, end: window.start }] : []),
+    window,
+    { start: window.end, end: window.end },
+  ];
+  const chunk = splitEventsByRanges(events, ranges, { chase: options.chase, tiedNotes: options.tiedNotes })[window.start > 0 ? 1 : 0];
+  return recalculateDeltaTimes(chunk.map(event => ({ ...event, absoluteTime: event.absoluteTime + window.start })));
+}
+
+/**
+ * Tick the first clip starts at. 'firstNote' drops whole bars of leading
+ * silence (a count-in, say) across all tracks, so outputs stay aligned.
+ */
+export function getStartTicks(
+  tracks: MIDITrack[],
+  settings: SplitSettings,
+  ppq: number,
+  meterMap: TimeSignatureEvent[]
+): number {
+  const crop = getCropTicks(settings, ppq, meterMap);
+  if (crop) return crop.start;
+  if (settings.startMode === 'offset') {
+    return splitPointToTicks(settings.startOffset, meterMap, ppq, settings.stepsPerBar);
+  }
+  if (settings.startMode === 'firstNote') {
+    const firstNote = tracks.reduce((first, track) => {
+      const noteOn = track.events.find(e => e.type === 'noteOn');
+      return noteOn ? Math.min(first, noteOn.absoluteTime) : first;
+    }, Infinity);
+    if (firstNote === Infinity) return 0;
+    return barToTicks(ticksToBarBeat(firstNote, meterMap, ppq).bar, meterMap, ppq);
+  }
+  return 0;
+}
+
+/**
+ * Loop length of each clip in ticks, always a whole number of steps and
+ * never shorter than the clip's range. 'bars' counts bars in the meter at
+ * the clip start.
+ */
+export function getClipLengths(
+  ranges: ClipRange[],
+  settings: SplitSettings,
+  ppq: number,
+  meterMap: TimeSignatureEvent[]
+): number[] {
+  const ticksPerStep = getTicksPerStep(ppq, settings.stepsPerBar);
+  const roundUp = (ticks: number, unit: number) => Math.max(1, Math.ceil(ticks / unit)) * unit;
+
+  return ranges.map((range, i) => {
+    const content = roundUp(range.end - range.start, ticksPerStep);
+    if (i === ranges.length - 1 && settings.finalClip === 'trim') return content;
+    if (settings.clipLength === 'maxSteps') {
+      return Math.max(content, settings.maxStepsPerClip * ticksPerStep);
+    }
+    if (settings.clipLength === 'bars') {
+      return roundUp(content, getTicksPerBar(getMeterAt(meterMap, range.start), ppq));
+    }
+    return content;
+  });
+}
+
+/**
+ * Parses a user split point: "bar:beat" (1-based, beat optional, e.g. "9:1"
+ * or "9") or a step position prefixed with "s" (e.g. "s128").
+ */
+export function parseSplitPoint(text: string): SplitPoint | null {
+  const trimmed = text.trim().toLowerCase();
+
+  const stepMatch = trimmed.match(/^s\s*(\d+)$/);
+  if (stepMatch) {
+    const step = parseInt(stepMatch[1]);
+    return step > 0 ? { unit: 'steps', step } : null;
+  }
+
+  const barMatch = trimmed.match(/^(\d+)(?:\s*[:.]\s*(\d+))?$/);
+  if (barMatch) {
+    const bar = parseInt(barMatch[1]);
+    const beat = barMatch[2] !== undefined ? parseInt(barMatch[2]) : 1;
+    return bar > 0 && beat > 0 ? { unit: 'bars', bar, beat } : null;
+  }
+
+  return null;
+}
+
+export function formatSplitPoint(point: SplitPoint): string {
+  return point.unit === 'steps' ? `s${point.step}` : `${point.bar}:${point.beat}`;
+}
+
+/** MIDI note number as a name with octave, middle C (60) = C4. */
+export function formatNoteName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+/** Reads "C3", "f#-1", "Bb4" or a plain note number; null if invalid or out of range. */
+export function parseNoteName(text: string): number | null {
+  const trimmed = text.trim();
+  if (/^\d+$/.test(trimmed)) {
+    const note = parseInt(trimmed);
+    return note <= 127 ? note : null;
+  }
+
+  const match = trimmed.match(/^([a-g])([#b]?)(-?\d+)$/i);
+  if (!match) return null;
+  const pitchClass = NOTE_NAMES.indexOf(match[1].toUpperCase());
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const note = (parseInt(match[3]) + 1) * 12 + pitchClass + accidental;
+  return note >= 0 && note <= 127 ? note : null;
+}
+
+export function splitPointToTicks(
+  point: SplitPoint,
+  meterMap: TimeSignatureEvent[],
+  ppq: number,
+  stepsPerBar: number
+): number {
+  if (point.unit === 'steps') {
+    return point.step * getTicksPerStep(ppq, stepsPerBar);
+  }
+  const barStart = barToTicks(point.bar - 1, meterMap, ppq);
+  const meter = getMeterAt(meterMap, barStart);
+  const ticksPerBeat = (ppq * QUARTERS_PER_WHOLE_NOTE) / meter.denominator;
+  return barStart + (point.beat - 1) * ticksPerBeat;
+}
+
+/** Tick positions of marker and cue point meta events across all tracks. */
+export function collectMarkerTicks(tracks: MIDITrack[]): number[] {
+  const ticks = tracks.flatMap(track => track.events
+    .filter(e => e.type === 'meta' && (e.metaType === 'marker' || e.metaType === 'cuePoint'))
+    .map(e => e.absoluteTime)
+  );
+  return Array.from(new Set(ticks)).sort((a, b) => a - b);
+}
+
+/**
+ * Moves notes toward a step grid (with optional swing) so the exported clip
+ * holds exactly what a step sequencer will play. Non-note events are left
+ * in place.
+ */
+export function quantizeEvents(
+  events: MIDIEvent[],
+  settings: QuantizeSettings,
+  ticksPerStep: number
+): { events: MIDIEvent[]; report: QuantizeReport } {
+  const report: QuantizeReport = { notesMoved: 0, averageShift: 0, maxShift: 0 };
+  if (!settings.enabled || events.length === 0) {
+    return { events, report };
+  }
+
+  const gridTicks = ticksPerStep / settings.gridDivision;
+  const swingOffset = (gridTicks / 2) * (settings.swing / 100);
+  const windowTicks = (gridTicks / 2) * (settings.window / 100);
+  const strength = settings.strength / 100;
+
+  // Nearest grid line, with every odd line pushed late by the swing amount
+  const snap = (ticks: number): number => {
+    const index = Math.round(ticks / gridTicks);
+    const candidates = [index - 1, index, index + 1].map(i =>
+      i * gridTicks + (Math.abs(i) % 2 === 1 ? swingOffset : 0)
+    );
+    return candidates.reduce((best, t) => Math.abs(t - ticks) < Math.abs(best - ticks) ? t : best);
+  };
+
+  const move = (ticks: number): number => {
+    const target = snap(ticks);
+    if (Math.abs(target - ticks) > windowTicks) return ticks;
+    return Math.max(0, Math.round(ticks + (target - ticks) * strength));
+  };
+
+  const newTimes = new Map<MIDIEvent, number>();
+  let totalShift = 0;
+
+  buildNoteLifecycles(events).forEach(lifecycle => {
+    lifecycle.forEach(({ noteOn, noteOff }) => {
+      const start = move(noteOn.absoluteTime);
+      const shift = Math.abs(start - noteOn.absoluteTime);
+      newTimes.set(noteOn, start);
+
+      if (noteOff) {
+        const end = settings.quantizeLength
+          ? move(noteOff.absoluteTime)
+          : noteOff.absoluteTime + (start - noteOn.absoluteTime);
+        newTimes.set(noteOff, Math.max(end, start + 1));
+      }
+
+      if (shift > 0) {
+        report.notesMoved++;
+        totalShift += shift;
+        report.maxShift = Math.max(report.maxShift, shift);
+      }
+    });
+  });
+
+  report.averageShift = report.notesMoved > 0 ? totalShift / report.notesMoved : 0;
+
+  const quantized = events.map(event =>
+    newTimes.has(event) ? { ...event, absoluteTime: newTimes.get(event)! } : { ...event }
+  );
+  return { events: recalculateDeltaTimes(quantized), report };
+}
+
+/** Converts a tick position between resolutions. */
+export function scaleTicks(ticks: number, fromPpq: number, toPpq: number, rounding: PpqRounding = 'nearest'): number {
+  // Trim float noise so exact multiples don't round the wrong way
+  const scaled = Math.round((ticks * toPpq / fromPpq) * 1e6) / 1e6;
+  switch (rounding) {
+    case 'down':
+      return Math.floor(scaled);
+    case 'up':
+      return Math.ceil(scaled);
+    default:
+      return Math.round(scaled);
+  }
+}
+
+/**
+ * Rescales event ticks from one PPQ to another. Notes keep at least one tick
+ * of length. Counts collisions: events of the same kind (same channel and
+ * note or controller) that were apart in the source but share a tick now.
+ */
+export function resampleEvents(
+  events: MIDIEvent[],
+  fromPpq: number,
+  toPpq: number,
+  rounding: PpqRounding = 'nearest'
+): { events: MIDIEvent[]; report: ResampleReport } {
+  const report: ResampleReport = { collisions: 0 };
+  if (fromPpq === toPpq) {
+    return { events, report };
+  }
+
+  const resampled = events.map(event => ({
+    ...event,
+    absoluteTime: scaleTicks(event.absoluteTime, fromPpq, toPpq, rounding),
+  }));
+
+  const lastSeen = new Map<string, { source: number; target: number }>();
+  resampled.forEach((event, i) => {
+    if (event.channel === undefined || event.type === 'noteOff') return;
+    const key = `${event.type}-${event.channel}-${event.note ?? event.controller ?? ''}`;
+    const source = events[i].absoluteTime;
+    const previous = lastSeen.get(key);
+    if (previous && previous.target === event.absoluteTime && previous.source !== source) {
+      report.collisions++;
+    }
+    lastSeen.set(key, { source, target: event.absoluteTime });
+  });
+
+  buildNoteLifecycles(resampled).forEach(lifecycle => {
+    lifecycle.forEach(({ noteOn, noteOff }) => {
+      if (noteOff && noteOff.absoluteTime <= noteOn.absoluteTime) {
+        noteOff.absoluteTime = noteOn.absoluteTime + 1;
+      }
+    });
+  });
+
+  return { events: recalculateDeltaTimes(resampled), report };
+}
+
+/** Sorts events by time (stable) and rewrites their delta times. */
+function recalculateDeltaTimes(events: MIDIEvent[]): MIDIEvent[] {
+  events.sort((a, b) => a.absoluteTime - b.absoluteTime);
+
+  let lastTime = 0;
+  events.forEach(event => {
+    event.deltaTime = event.absoluteTime - lastTime;
+    lastTime = event.absoluteTime;
+  });
+
+  return events;
+}
+
 export function filterSupportedEvents(events: MIDIEvent[]): MIDIEvent[] {
-  const supported = ['noteOn', 'noteOff', 'cc', 'programChange', 'pitchBend', 'aftertouch', 'channelAftertouch', 'meta'];
+  const supported = ['noteOn', 'noteOff', 'cc', 'programChange', 'pitchBend', 'aftertouch', 'channelAftertouch', 'meta', 'sysex'];
   return events.filter(e => supported.includes(e.type));
 }
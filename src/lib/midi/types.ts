@@ -14,11 +14,13 @@ export interface MIDIEvent {
   note?: number;
   velocity?: number;
   controller?: number;
-  value?: number;
+  value?: number; // CC value, pitch bend (0-16383, center 8192) or aftertouch pressure
   program?: number;
-  metaType?: string;
-  data?: Uint8Array;
+  metaType?: string; // e.g. 'setTempo', 'timeSignature', 'marker' (see META_TYPE_NAMES)
+  data?: Uint8Array; // meta / sysex payload
   text?: string;
+  raw?: Uint8Array; // original message bytes with status byte (running status expanded)
+  accent?: boolean; // note picked by the velocity stage; its accent is written by addAccents
 }
 
 export interface MIDITrack {
@@ -30,6 +32,29 @@ export interface MIDITrack {
   eventCount: number;
   program?: number; // GM instrument number (0-127)
   isDrums?: boolean; // true if track uses channel 10 (drums)
+  sourceIndex?: number; // in working track lists: index of the parsed track this entry comes from
+  channel?: number; // for virtual per-channel tracks: the channel they hold
+  drumLane?: string; // for virtual drum lane tracks: the DrumLane id they hold
+}
+
+export interface DrumLane {
+  id: string;
+  name: string;
+  notes: number[]; // empty = every note no other lane claims
+  targetNote?: number; // remap the whole lane to this note (e.g. for a mono drum voice)
+}
+
+export interface TempoEvent {
+  ticks: number;
+  microsecondsPerBeat: number;
+  bpm: number;
+}
+
+export interface TimeSignatureEvent {
+  ticks: number;
+  numerator: number;
+  denominator: number; // actual note value (4 = quarter), not the SMF power of two
+  bar: number; // 0-based bar index where this meter starts
 }
 
 export interface ParsedMIDI {
@@ -38,40 +63,288 @@ export interface ParsedMIDI {
   fileName: string;
   duration: number; // in ticks
   tempo?: number; // BPM from first tempo event
+  tempoMap: TempoEvent[]; // sorted by ticks, always starts at tick 0
+  meterMap: TimeSignatureEvent[]; // sorted by ticks, always starts at tick 0
+}
+
+export interface QuantizeSettings {
+  enabled: boolean;
+  gridDivision: 1 | 2 | 3 | 4; // grid = one step / gridDivision
+  strength: number; // %, how far notes move toward the grid
+  swing: number; // %, delay of every second grid line (100 = half a grid)
+  quantizeLength: boolean; // also snap note ends, not just starts
+  window: number; // %, only notes within this share of half a grid move (100 = all)
+}
+
+export interface QuantizeReport {
+  notesMoved: number;
+  averageShift: number; // ticks
+  maxShift: number; // ticks
+}
+
+export interface ChaseSettings {
+  enabled: boolean;
+  controllers: number[]; // CC numbers to chase; empty = all
+  pitchBend: boolean;
+  program: boolean;
+}
+
+export type TiedNotePolicy = 'retrigger' | 'truncate' | 'extend' | 'dropLate';
+
+export interface TiedNoteSettings {
+  policy: TiedNotePolicy;
+  dropWindowTicks: number; // 'dropLate': crossing notes starting this close to the clip end are dropped
+}
+
+export interface TiedNoteReport {
+  retriggered: number;
+  truncated: number;
+  extended: number;
+  dropped: number;
+}
+
+export interface PatchSettings {
+  bankMsb?: number; // CC0
+  bankLsb?: number; // CC32
+  program?: number; // 0-127
+}
+
+export interface NoteFilterSettings {
+  enabled: boolean;
+  low: number; // lowest source note kept, inclusive
+  high: number; // highest source note kept, inclusive
+  transpose: number; // semitones, applied after filtering
+}
+
+export interface SustainSettings {
+  enabled: boolean; // hold notes until the sustain pedal (CC64) lifts, then strip CC64
+  sostenuto: boolean; // also bake the sostenuto pedal (CC66) and strip it
+}
+
+export interface SustainReport {
+  extended: number; // notes whose noteOff moved later
+  pedalEvents: number; // pedal CCs removed
+}
+
+export interface DrumMap {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  notes: Record<number, number>; // source (GM) note -> note the target kit plays it on
+}
+
+export interface DrumMapSettings {
+  map: DrumMap;
+  dropUnmapped: boolean; // leave out notes the map has no entry for
+}
+
+export interface DrumMapReport {
+  mapped: number; // noteOns moved by the map
+  unmapped: number[]; // distinct source notes with no entry
+  dropped: number; // noteOns left out because they were unmapped
+}
+
+export type RangeFitMode = 'fold' | 'clamp' | 'drop' | 'transpose';
+
+export interface PlayableRangeSettings {
+  enabled: boolean;
+  mode: RangeFitMode;
+  low: number; // lowest playable note, inclusive
+  high: number; // highest playable note, inclusive
+}
+
+export interface PlayableRangeReport {
+  outsideBefore: number; // noteOns outside the range as merged
+  outsideAfter: number; // noteOns still outside once the mode is applied
+  moved: number; // noteOns folded, clamped or transposed
+  dropped: number;
+  transpose: number; // 'transpose': semitones applied to the whole output
+}
+
+export type VoiceStealPolicy = 'highest' | 'lowest' | 'last' | 'first';
+
+export interface PolyphonySettings {
+  enabled: boolean;
+  maxVoices: number; // 1 = monophonic
+  steal: VoiceStealPolicy; // which notes keep their voice when all are busy
+  legato: boolean; // mono only: a cut note's noteOff follows the next noteOn on the same tick instead of preceding it
+}
+
+export interface PolyphonyReport {
+  peakBefore: number;
+  peakAfter: number;
+  shortened: number; // notes cut off when their voice was taken
+  dropped: number; // notes that never got a voice
+}
+
+export type VelocityMode = 'keep' | 'fixed' | 'scale' | 'compress' | 'curve';
+export type VelocityCurve = 'soft' | 'hard' | 'sCurve';
+
+export interface VelocitySettings {
+  enabled: boolean;
+  mode: VelocityMode;
+  fixed: number; // 'fixed': every note gets this velocity
+  scale: number; // 'scale': percent, applied before the offset
+  offset: number; // 'scale': added after scaling
+  low: number; // 'compress': target range
+  high: number;
+  amount: number; // 'compress': percent of the way into the target range
+  curve: VelocityCurve; // 'curve'
+  ghostThreshold: number; // notes softer than this are dropped; 0 keeps all
+  accent: {
+    enabled: boolean;
+    threshold: number; // notes at or above this source velocity are accented
+    target: 'cc' | 'note';
+    controller: number; // 'cc': 127 on accented notes, 0 on the rest
+    note: number; // 'note': played alongside each accented note
+  };
+}
+
+export interface VelocityReport {
+  before: number[]; // noteOn count per velocity bucket of VELOCITY_BUCKET_SIZE
+  after: number[];
+  dropped: number; // ghost notes
+  accents: number;
 }
 
 export interface OutputTrackConfig {
-  outputId: 'A' | 'B' | 'C' | 'D';
+  outputId: string; // id of a DeviceOutput in the active profile
   sourceTracks: number[]; // indices of source tracks to merge
   channelFilter?: number[]; // if specified, only include these channels
   stripProgramChange: boolean;
+  outputChannel?: number; // 0-15; every channel event is moved to this channel
+  patch?: PatchSettings; // sent at tick 0 of every clip, replacing the source's own
+  noteFilter?: NoteFilterSettings;
+  sustain?: SustainSettings;
+  drumMap?: DrumMapSettings;
+  playableRange?: PlayableRangeSettings;
+  velocity?: VelocitySettings;
+  quantize?: QuantizeSettings;
+  polyphony?: PolyphonySettings;
+  chase?: ChaseSettings;
+  tiedNotes?: TiedNoteSettings;
+}
+
+export interface NoteRange {
+  min: number;
+  max: number;
+}
+
+export interface DeviceOutput {
+  id: string; // short key used in configs and filenames, e.g. 'A' or 'T1'
+  name: string;
+  midiChannel?: number; // 1-16 as shown on the device; omit to keep source channels
+  noteRange?: NoteRange; // overrides the profile range for this output
+  maxPolyphony?: number; // overrides the profile polyphony for this output
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  outputs: DeviceOutput[];
+  maxStepsPerClip: number;
+  stepsPerBar: number;
+  allowedPpq: number[]; // empty = any PPQ
+  noteRange: NoteRange;
+  maxPolyphony?: number; // omit for unlimited
+  fileNamePattern: string; // tokens: {output} {name} {index}
+  indexPadding: number; // zero-pad {index} to this many digits
+  folderPattern: string; // same tokens; empty = ZIP root
 }
 
+export type SplitStrategy = 'fixed' | 'bars' | 'minHeldNotes' | 'markers';
+
+export type SplitPoint =
+  | { unit: 'bars'; bar: number; beat: number } // 1-based
+  | { unit: 'steps'; step: number }; // steps from song start
+
+export interface DedupeSettings {
+  enabled: boolean;
+  matchTransposed: boolean;
+  velocityTolerance: number; // max velocity difference per note
+  timingTolerance: number; // max start/length difference per note, in ticks
+}
+
+export type PpqRounding = 'nearest' | 'down' | 'up';
+
+export interface ResampleReport {
+  collisions: number; // events moved onto the same tick as a distinct event of the same kind
+}
+
+// range: each clip is as long as its slice of the song; maxSteps / bars: fixed loop length
+export type ClipLengthMode = 'range' | 'maxSteps' | 'bars';
+// The song's last clip: pad it to the clip length like the others, or end it at its last note
+export type FinalClipMode = 'pad' | 'trim';
+
+// Where the first clip starts: tick 0, a fixed position, or the bar of the first note
+export type StartMode = 'songStart' | 'offset' | 'firstNote';
+
 export interface SplitSettings {
   stepsPerBar: number;
   maxStepsPerClip: number;
-  ppq: number;
+  ppq: number; // export resolution; events are rescaled from the source PPQ
+  ppqRounding: PpqRounding;
+  splitStrategy: SplitStrategy;
+  splitPoints: SplitPoint[]; // section boundaries; clips never cross them
+  clipLength: ClipLengthMode;
+  finalClip: FinalClipMode;
+  startMode: StartMode;
+  startOffset: SplitPoint; // used when startMode is 'offset'
+  skipEmptyClips: boolean; // leave out clips with no notes
+  crop: { start: SplitPoint; end: SplitPoint } | null; // export only this window; overrides the start mode
+  dedupe: DedupeSettings;
+}
+
+// type0/type1: one file per clip; multiTrack: one type 1 file per split index holding every output
+export type ExportFormat = 'type0' | 'type1' | 'multiTrack';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  runningStatus: boolean; // omit repeated channel status bytes in written files
+}
+
+export interface ClipRange {
+  start: number; // in ticks, inclusive
+  end: number; // in ticks, exclusive
 }
 
 export interface ExportFile {
   filename: string;
   data: Uint8Array;
-  trackId: 'A' | 'B' | 'C' | 'D';
+  format: ExportFormat;
+  trackIds: string[]; // a single output unless format is multiTrack
   splitIndex?: number;
   stepRange: { start: number; end: number };
+  overrun?: boolean; // events run past the step range, so the file loops later than it says
 }
 
 export interface ExportMetadata {
   generatedAt: string;
   sourceFile: string;
+  sourcePpq: number;
   ppq: number;
+  profile: DeviceProfile;
   splitSettings: SplitSettings;
+  crop?: ClipRange; // the export window as resolved, in source ticks; absent when the whole song is exported
+  exportSettings: ExportSettings;
   stripProgramChange: boolean;
   files: {
     filename: string;
-    trackId: string;
+    format: ExportFormat;
+    trackIds: string[];
     splitIndex?: number;
     stepRange: { start: number; end: number };
+    overrun?: boolean;
     sourceTracks: number[];
   }[];
+  gaps?: {
+    trackIds: string[];
+    splitIndex?: number;
+    stepRange: { start: number; end: number };
+  }[]; // clips left out because they hold no notes
+  chains?: {
+    trackId: string;
+    clips: { filename: string; transpose: number; stepRange: { start: number; end: number } }[];
+  }[]; // play order of unique patterns, when repeated clips are collapsed
 }
@@ -1,105 +1,228 @@
-import { Midi } from '@tonejs/midi';
-import type { MIDIEvent, MIDIHeader } from './types';
+import type { MIDIEvent, TempoEvent, TimeSignatureEvent } from './types';
+import { DEFAULT_BPM, META_TYPE_NAMES } from './constants';
 
+export interface WriteOptions {
+  tempos?: TempoEvent[];
+  timeSignatures?: TimeSignatureEvent[];
+  runningStatus?: boolean; // omit repeated channel status bytes (default true)
+  endOfTrackTicks?: number; // end-of-track no earlier than this tick
+}
+
+export interface WriterTrack {
+  name: string;
+  events: MIDIEvent[];
+}
+
+const META_TYPE_BYTES: Record<string, number> = Object.fromEntries(
+  Object.entries(META_TYPE_NAMES).map(([byte, name]) => [name, Number(byte)])
+);
+
+/**
+ * Writes a clip as a Standard MIDI File holding the events exactly as
+ * given, at their original ticks. Type 1 puts tempo and time signature in a
+ * conductor track; type 0 merges everything into the single track.
+ */
 export function writeMIDIFile(
   events: MIDIEvent[],
   ppq: number,
   trackName: string,
-  tempo = 120
+  options: WriteOptions = {},
+  smfType: 0 | 1 = 1
 ): Uint8Array {
-  const midi = new Midi();
-  midi.header.setTempo(tempo);
-  
-  const track = midi.addTrack();
-  track.name = trackName;
-
-  // Build proper Map: key = "channel-note" → sorted array of noteOff times with consumption tracking
-  const noteOffsByKey = new Map<string, { times: number[]; nextIndex: number }>();
-  events.forEach(event => {
-    if (event.type === 'noteOff' && event.note !== undefined && event.channel !== undefined) {
-      const key = `${event.channel}-${event.note}`;
-      if (!noteOffsByKey.has(key)) {
-        noteOffsByKey.set(key, { times: [], nextIndex: 0 });
-      }
-      noteOffsByKey.get(key)!.times.push(event.absoluteTime);
-    }
+  if (smfType === 1) {
+    return writeMultiTrackMIDIFile([{ name: trackName, events }], ppq, options);
+  }
+
+  const track = encodeTrack(
+    [...buildConductorEvents(options), textMetaEvent('trackName', trackName), ...events],
+    options.runningStatus ?? true,
+    options.endOfTrackTicks
+  );
+
+  return buildFile(0, ppq, [track]);
+}
+
+/** Writes a type 1 file: a conductor track, then one track per entry. */
+export function writeMultiTrackMIDIFile(
+  tracks: WriterTrack[],
+  ppq: number,
+  options: WriteOptions = {}
+): Uint8Array {
+  const runningStatus = options.runningStatus ?? true;
+
+  const conductor = encodeTrack(buildConductorEvents(options), runningStatus);
+  const encoded = tracks.map(track => encodeTrack(
+    [textMetaEvent('trackName', track.name), ...track.events],
+    runningStatus,
+    options.endOfTrackTicks
+  ));
+
+  return buildFile(1, ppq, [conductor, ...encoded]);
+}
+
+function buildConductorEvents(options: WriteOptions): MIDIEvent[] {
+  const tempos = options.tempos && options.tempos.length > 0
+    ? options.tempos
+    : [{ ticks: 0, microsecondsPerBeat: 60000000 / DEFAULT_BPM, bpm: DEFAULT_BPM }];
+
+  const tempoEvents: MIDIEvent[] = tempos.map(tempo => {
+    const uspq = Math.round(tempo.microsecondsPerBeat);
+    return {
+      type: 'meta',
+      deltaTime: 0,
+      absoluteTime: tempo.ticks,
+      metaType: 'setTempo',
+      data: new Uint8Array([(uspq >> 16) & 0xff, (uspq >> 8) & 0xff, uspq & 0xff]),
+    };
   });
-  
-  // Sort each array for binary search
-  noteOffsByKey.forEach(data => data.times.sort((a, b) => a - b));
-
-  // Helper to find and consume next noteOff time > noteOn time
-  const findAndConsumeNextNoteOff = (data: { times: number[]; nextIndex: number }, noteOnTime: number): number | undefined => {
-    // Start from nextIndex (last consumed position)
-    while (data.nextIndex < data.times.length) {
-      const noteOffTime = data.times[data.nextIndex];
-      if (noteOffTime > noteOnTime) {
-        data.nextIndex++; // Consume this noteOff
-        return noteOffTime;
-      }
-      data.nextIndex++; // Skip noteOffs that are before or equal to this noteOn
-    }
-    return undefined;
+
+  const meterEvents: MIDIEvent[] = (options.timeSignatures || []).map(meter => ({
+    type: 'meta',
+    deltaTime: 0,
+    absoluteTime: meter.ticks,
+    metaType: 'timeSignature',
+    // numerator, denominator as power of two, MIDI clocks per click, 32nds per quarter
+    data: new Uint8Array([meter.numerator, Math.round(Math.log2(meter.denominator)), 24, 8]),
+  }));
+
+  // Time signature before tempo at the same tick, as most sequencers write them
+  return [...meterEvents, ...tempoEvents].sort((a, b) => a.absoluteTime - b.absoluteTime);
+}
+
+function textMetaEvent(metaType: string, text: string): MIDIEvent {
+  return {
+    type: 'meta',
+    deltaTime: 0,
+    absoluteTime: 0,
+    metaType,
+    text,
+    data: new Uint8Array(Array.from(text, c => c.charCodeAt(0) & 0xff)),
   };
+}
+
+/**
+ * Encodes an MTrk chunk. Delta times are rebuilt from absolute times, and
+ * an end-of-track is written after the last event (or at `endTicks`).
+ */
+function encodeTrack(events: MIDIEvent[], runningStatus: boolean, endTicks = 0): Uint8Array {
+  const bytes: number[] = [];
+  let lastTime = 0;
+  let lastStatus: number | undefined;
+
+  const sorted = events
+    .filter(e => !(e.type === 'meta' && e.metaType === 'endOfTrack'))
+    .map(e => ({ event: e, ticks: Math.max(0, Math.round(e.absoluteTime)) }))
+    .sort((a, b) => a.ticks - b.ticks);
 
-  // Convert events back to Tone.js format
-  const processedNotes = new Set<string>();
-  
-  events.forEach(event => {
-    const time = event.absoluteTime / ppq; // Convert ticks to beats
-
-    switch (event.type) {
-      case 'noteOn':
-        if (event.note !== undefined && event.velocity !== undefined && event.channel !== undefined) {
-          // Find and consume corresponding noteOff using optimized Map with consumption tracking
-          const noteKey = `${event.channel}-${event.note}`;
-          const noteOffData = noteOffsByKey.get(noteKey);
-          const noteOffTime = noteOffData ? findAndConsumeNextNoteOff(noteOffData, event.absoluteTime) : undefined;
-          
-          const duration = noteOffTime 
-            ? (noteOffTime - event.absoluteTime) / ppq 
-            : 0.25; // Default quarter note
-
-          const uniqueKey = `${event.channel}-${event.note}-${event.absoluteTime}`;
-          if (!processedNotes.has(uniqueKey)) {
-            track.addNote({
-              midi: event.note,
-              time,
-              duration,
-              velocity: event.velocity / 127,
-            });
-            processedNotes.add(uniqueKey);
-          }
-        }
-        break;
-
-      case 'cc':
-        if (event.controller !== undefined && event.value !== undefined) {
-          track.addCC({
-            number: event.controller,
-            value: event.value / 127,
-            time,
-          });
-        }
-        break;
-
-      case 'programChange':
-        if (event.program !== undefined) {
-          track.instrument.number = event.program;
-        }
-        break;
-
-      case 'pitchBend':
-        if (event.value !== undefined) {
-          track.addPitchBend({
-            value: (event.value / 8192) - 1, // Convert 0-16384 to -1 to 1
-            time,
-          });
-        }
-        break;
+  sorted.forEach(({ event, ticks }) => {
+    const message = encodeEvent(event);
+    if (!message) return;
+
+    writeVLQ(bytes, ticks - lastTime);
+    lastTime = ticks;
+
+    const status = message[0];
+    const isChannelMessage = status < 0xf0;
+    if (isChannelMessage && runningStatus && status === lastStatus) {
+      bytes.push(...message.slice(1));
+    } else {
+      bytes.push(...message);
     }
+    // Meta and sysex cancel running status
+    lastStatus = isChannelMessage ? status : undefined;
   });
 
-  return midi.toArray();
+  writeVLQ(bytes, Math.max(0, Math.round(endTicks) - lastTime));
+  bytes.push(0xff, 0x2f, 0x00);
+
+  return new Uint8Array(bytes);
 }
 
+/** Full message bytes (status first) for an event, or null if it can't be written. */
+function encodeEvent(event: MIDIEvent): number[] | null {
+  const channel = (event.channel ?? 0) & 0x0f;
+  const data7 = (value: number | undefined) => Math.max(0, Math.min(127, Math.round(value ?? 0)));
+
+  switch (event.type) {
+    case 'noteOn':
+      if (event.note === undefined) return null;
+      return [0x90 | channel, data7(event.note), data7(event.velocity)];
+    case 'noteOff':
+      if (event.note === undefined) return null;
+      return [0x80 | channel, data7(event.note), data7(event.velocity)];
+    case 'aftertouch':
+      if (event.note === undefined) return null;
+      return [0xa0 | channel, data7(event.note), data7(event.value)];
+    case 'cc':
+      if (event.controller === undefined) return null;
+      return [0xb0 | channel, data7(event.controller), data7(event.value)];
+    case 'programChange':
+      if (event.program === undefined) return null;
+      return [0xc0 | channel, data7(event.program)];
+    case 'channelAftertouch':
+      return [0xd0 | channel, data7(event.value)];
+    case 'pitchBend': {
+      const value = Math.max(0, Math.min(16383, Math.round(event.value ?? 8192)));
+      return [0xe0 | channel, value & 0x7f, (value >> 7) & 0x7f];
+    }
+    case 'sysex': {
+      const data = event.data ?? new Uint8Array(0);
+      const status = event.raw?.[0] === 0xf7 ? 0xf7 : 0xf0;
+      const bytes = [status];
+      writeVLQ(bytes, data.length);
+      bytes.push(...data);
+      return bytes;
+    }
+    case 'meta': {
+      const typeByte = event.metaType !== undefined && event.metaType in META_TYPE_BYTES
+        ? META_TYPE_BYTES[event.metaType]
+        : event.raw?.[1];
+      if (typeByte === undefined) return null;
+      const data = event.data ?? new Uint8Array(0);
+      const bytes = [0xff, typeByte];
+      writeVLQ(bytes, data.length);
+      bytes.push(...data);
+      return bytes;
+    }
+    default:
+      return null;
+  }
+}
+
+function writeVLQ(bytes: number[], value: number) {
+  const groups = [value & 0x7f];
+  let rest = value >>> 7;
+  while (rest > 0) {
+    groups.unshift((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  bytes.push(...groups);
+}
+
+function buildFile(format: 0 | 1, ppq: number, tracks: Uint8Array[]): Uint8Array {
+  const length = 14 + tracks.reduce((sum, t) => sum + 8 + t.length, 0);
+  const file = new Uint8Array(length);
+  const view = new DataView(file.buffer);
+  let pos = 0;
+
+  const writeId = (id: string) => {
+    for (let i = 0; i < 4; i++) file[pos++] = id.charCodeAt(i);
+  };
+
+  writeId('MThd');
+  view.setUint32(pos, 6);
+  view.setUint16(pos + 4, format);
+  view.setUint16(pos + 6, tracks.length);
+  view.setUint16(pos + 8, Math.round(ppq));
+  pos += 10;
+
+  tracks.forEach(track => {
+    writeId('MTrk');
+    view.setUint32(pos, track.length);
+    pos += 4;
+    file.set(track, pos);
+    pos += track.length;
+  });
+
+  return file;
+}
@@ -1,5 +1,7 @@
 import JSZip from 'jszip';
 import type { ExportFile, ExportMetadata } from '../midi/types';
+import { CLIP_LENGTH_LABELS, EXPORT_FORMAT_LABELS, FINAL_CLIP_LABELS, PPQ_ROUNDING_LABELS, SPLIT_STRATEGY_LABELS, START_MODE_LABELS } from '../midi/constants';
+import { formatSplitPoint } from '../midi/transform';
 
 export async function createExportZip(
   files: ExportFile[],
@@ -30,19 +32,37 @@ Source File: ${metadata.sourceFile}
 OVERVIEW
 ========
 This package contains MIDI files split and prepared for import into your
-hardware synth or DAW. Each file represents a clip or track segment.
+hardware synth or DAW. ${metadata.exportSettings.format === 'multiTrack'
+  ? 'Each file holds one clip position, with every output as its own track.'
+  : 'Each file represents a clip or track segment.'}
 
 FILES INCLUDED
 ==============
 ${metadata.files.map(f => {
   const splitInfo = f.splitIndex !== undefined ? ` (Part ${f.splitIndex})` : '';
   return `${f.filename}${splitInfo}
-  Track: ${f.trackId}
+  ${f.trackIds.length > 1 ? 'Tracks' : 'Track'}: ${f.trackIds.join(', ')}
   Steps: ${f.stepRange.start} - ${f.stepRange.end}
-  Source Tracks: ${f.sourceTracks.join(', ')}`;
+  Source Tracks: ${f.sourceTracks.join(', ')}${f.overrun ? `
+  Warning: notes run past step ${f.stepRange.end}, so the file loops later than this range` : ''}`;
 }).join('\n\n')}
 
-IMPORT INSTRUCTIONS
+${metadata.chains && metadata.chains.length > 0 ? `SONG CHAINS
+===========
+Repeated clips were collapsed into unique patterns. Program your device's
+song mode with these patterns in order (transposition in semitones):
+
+${metadata.chains.map(chain => `Track ${chain.trackId}: ${chain.clips.map(c =>
+  `${c.filename.replace(/\.mid$/, '')}${c.transpose !== 0 ? ` (${c.transpose > 0 ? '+' : ''}${c.transpose})` : ''}`
+).join(' > ')}`).join('\n')}
+
+` : ''}${metadata.gaps && metadata.gaps.length > 0 ? `SKIPPED CLIPS
+=============
+These clips hold no notes and were not written; leave the steps empty:
+
+${metadata.gaps.map(gap => `${gap.trackIds.join(', ')}${gap.splitIndex !== undefined ? ` part ${gap.splitIndex}` : ''}: steps ${gap.stepRange.start} - ${gap.stepRange.end}`).join('\n')}
+
+` : ''}IMPORT INSTRUCTIONS
 ===================
 For Hardware Synths:
 1. Transfer all .mid files to your device via USB or SD card
@@ -57,18 +77,50 @@ For DAWs:
 
 NOTES
 =====
-- Files automatically split at ${metadata.splitSettings.maxStepsPerClip} steps
+- Files automatically split at up to ${metadata.splitSettings.maxStepsPerClip} steps (${SPLIT_STRATEGY_LABELS[metadata.splitSettings.splitStrategy].toLowerCase()})
+- Each file ends (end of track) at its loop length, the step range above,
+  unless it carries a warning (e.g. notes extended past the clip end)
 - Tempo and time signature preserved from source
 - Program changes ${metadata.stripProgramChange ? 'removed' : 'included'}
-- Standard MIDI Format Type 1 (single-track)
+- ${describeFormat(metadata)}
 
 SETTINGS USED
 =============
-PPQ: ${metadata.ppq}
+Device Profile: ${metadata.profile.name}
+Outputs: ${metadata.profile.outputs.map(o => `${o.id} (${o.name}${o.midiChannel ? `, ch ${o.midiChannel}` : ''})`).join(', ')}
+File Format: ${EXPORT_FORMAT_LABELS[metadata.exportSettings.format]}
+Running Status: ${metadata.exportSettings.runningStatus ? 'on' : 'off'}
+PPQ: ${metadata.ppq}${metadata.sourcePpq !== metadata.ppq ? ` (rescaled from ${metadata.sourcePpq}, ${PPQ_ROUNDING_LABELS[metadata.splitSettings.ppqRounding].toLowerCase()})` : ''}
 Steps per Bar: ${metadata.splitSettings.stepsPerBar}
 Max Steps per Clip: ${metadata.splitSettings.maxStepsPerClip}
+Split Strategy: ${SPLIT_STRATEGY_LABELS[metadata.splitSettings.splitStrategy]}
+Crop: ${metadata.crop && metadata.splitSettings.crop ? `${formatSplitPoint(metadata.splitSettings.crop.start)} to ${formatSplitPoint(metadata.splitSettings.crop.end)} (end exclusive)` : 'none (whole song)'}
+Start: ${describeStart(metadata)}
+Skip Empty Clips: ${metadata.splitSettings.skipEmptyClips ? 'yes' : 'no'}
+Clip Length: ${CLIP_LENGTH_LABELS[metadata.splitSettings.clipLength]}; last clip: ${FINAL_CLIP_LABELS[metadata.splitSettings.finalClip].toLowerCase()}
+Unique Patterns Only: ${metadata.splitSettings.dedupe.enabled && metadata.exportSettings.format !== 'multiTrack' ? 'yes' : 'no'}
+Split Points: ${metadata.splitSettings.splitPoints.length > 0 ? metadata.splitSettings.splitPoints.map(formatSplitPoint).join(', ') : 'none'}
 
 ---
 Generated by MIDI Splitter
 `;
 }
+
+function describeStart(metadata: ExportMetadata): string {
+  const { startMode, startOffset } = metadata.splitSettings;
+  if (metadata.crop) return 'Crop start';
+  return startMode === 'offset'
+    ? `${START_MODE_LABELS[startMode]} (${formatSplitPoint(startOffset)})`
+    : START_MODE_LABELS[startMode];
+}
+
+function describeFormat(metadata: ExportMetadata): string {
+  switch (metadata.exportSettings.format) {
+    case 'type0':
+      return 'Standard MIDI File type 0 (one track with tempo and time signature)';
+    case 'type1':
+      return 'Standard MIDI File type 1 (tempo track plus one clip track)';
+    case 'multiTrack':
+      return 'Standard MIDI File type 1 (tempo track plus one track per output; repeated clips are not collapsed)';
+  }
+}
@@ -1,23 +1,60 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Disc3 } from 'lucide-react';
 import { UploadPanel } from '@/components/UploadPanel';
 import { MidiPlayer } from '@/components/MidiPlayer';
 import { TrackInspector } from '@/components/TrackInspector';
 import { SplitSettings } from '@/components/SplitSettings';
+import { DeviceProfileSelector } from '@/components/DeviceProfileSelector';
+import { DrumLaneEditor } from '@/components/DrumLaneEditor';
+import { DrumMapEditor } from '@/components/DrumMapEditor';
 import { SummaryPanel } from '@/components/SummaryPanel';
 import { ExportPanel } from '@/components/ExportPanel';
 import { parseMIDIFile } from '@/lib/midi/parser';
+import { buildWorkingTracks, getCropTicks, remapConfigTracks } from '@/lib/midi/transform';
+import { barToTicks } from '@/lib/midi/meter';
+import { ticksToSeconds } from '@/lib/midi/tempo';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE, pickPpq } from '@/lib/midi/profiles';
+import { BUILT_IN_DRUM_MAPS, DEFAULT_DRUM_LANES } from '@/lib/midi/gm-drums';
 import { useMidiPlayer } from '@/hooks/useMidiPlayer';
 import { toast } from 'sonner';
-import type { ParsedMIDI, OutputTrackConfig, SplitSettings as SplitSettingsType } from '@/lib/midi/types';
+import type { ParsedMIDI, OutputTrackConfig, DeviceProfile, DrumLane, DrumMap, ExportSettings, SplitSettings as SplitSettingsType } from '@/lib/midi/types';
 const Index = () => {
   const [parsedMidi, setParsedMidi] = useState<ParsedMIDI | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [configs, setConfigs] = useState<Map<string, OutputTrackConfig>>(new Map());
+  const [explodedTracks, setExplodedTracks] = useState<Set<number>>(new Set());
+  const [drumExplodedTracks, setDrumExplodedTracks] = useState<Set<number>>(new Set());
+  const [drumLanes, setDrumLanes] = useState<DrumLane[]>(DEFAULT_DRUM_LANES);
+  const [drumMaps, setDrumMaps] = useState<DrumMap[]>(BUILT_IN_DRUM_MAPS);
+  const [profiles, setProfiles] = useState<DeviceProfile[]>(BUILT_IN_PROFILES);
+  const [profile, setProfile] = useState<DeviceProfile>(DEFAULT_PROFILE);
   const [splitSettings, setSplitSettings] = useState<SplitSettingsType>({
-    stepsPerBar: 16,
-    maxStepsPerClip: 128,
-    ppq: 480
+    stepsPerBar: DEFAULT_PROFILE.stepsPerBar,
+    maxStepsPerClip: DEFAULT_PROFILE.maxStepsPerClip,
+    ppq: 480,
+    ppqRounding: 'nearest',
+    splitStrategy: 'fixed',
+    splitPoints: [],
+    clipLength: 'range',
+    finalClip: 'pad',
+    startMode: 'songStart',
+    startOffset: {
+      unit: 'bars',
+      bar: 1,
+      beat: 1
+    },
+    skipEmptyClips: false,
+    crop: null,
+    dedupe: {
+      enabled: false,
+      matchTransposed: false,
+      velocityTolerance: 0,
+      timingTolerance: 0
+    }
+  });
+  const [exportSettings, setExportSettings] = useState<ExportSettings>({
+    format: 'type1',
+    runningStatus: true
   });
   const {
     isPlaying,
@@ -34,16 +71,138 @@ const Index = () => {
     toggleMute,
     toggleSolo
   } = useMidiPlayer(parsedMidi);
+
+  // Track list with exploded source tracks replaced by per-channel and drum lane virtual tracks
+  const workingMidi = useMemo<ParsedMIDI | null>(() => parsedMidi && {
+    ...parsedMidi,
+    tracks: buildWorkingTracks(parsedMidi.tracks, explodedTracks, drumExplodedTracks, drumLanes)
+  }, [parsedMidi, explodedTracks, drumExplodedTracks, drumLanes]);
+  // Bar start times for selecting a crop range on the player timeline
+  const barTimes = useMemo(() => {
+    if (!parsedMidi) return [];
+    const { header, meterMap, tempoMap, duration } = parsedMidi;
+    const times: number[] = [];
+    for (let bar = 0, ticks = 0; ticks < duration; ticks = barToTicks(++bar, meterMap, header.ppq)) {
+      times.push(ticksToSeconds(ticks, tempoMap, header.ppq));
+    }
+    return times;
+  }, [parsedMidi]);
+  const cropSelection = useMemo(() => {
+    if (!parsedMidi) return null;
+    const crop = getCropTicks(splitSettings, parsedMidi.header.ppq, parsedMidi.meterMap);
+    return crop && {
+      start: ticksToSeconds(crop.start, parsedMidi.tempoMap, parsedMidi.header.ppq),
+      end: ticksToSeconds(crop.end, parsedMidi.tempoMap, parsedMidi.header.ppq)
+    };
+  }, [parsedMidi, splitSettings]);
+  const handleSelectBars = (startBar: number, endBar: number) => {
+    setSplitSettings(prev => ({
+      ...prev,
+      crop: {
+        start: { unit: 'bars', bar: startBar + 1, beat: 1 },
+        end: { unit: 'bars', bar: endBar + 1, beat: 1 }
+      }
+    }));
+  };
+  // Rebuilds the working tracks and moves output assignments onto them
+  const updateWorkingTracks = (exploded: Set<number>, drumExploded: Set<number>, lanes: DrumLane[]) => {
+    if (!parsedMidi || !workingMidi) return;
+    const newTracks = buildWorkingTracks(parsedMidi.tracks, exploded, drumExploded, lanes);
+    setConfigs(remapConfigTracks(configs, workingMidi.tracks, newTracks));
+    setExplodedTracks(exploded);
+    setDrumExplodedTracks(drumExploded);
+    setDrumLanes(lanes);
+  };
+  const toggled = (set: Set<number>, sourceIndex: number) => {
+    const newSet = new Set(set);
+    if (newSet.has(sourceIndex)) {
+      newSet.delete(sourceIndex);
+    } else {
+      newSet.add(sourceIndex);
+    }
+    return newSet;
+  };
+  const handleToggleExplode = (sourceIndex: number) => {
+    updateWorkingTracks(toggled(explodedTracks, sourceIndex), drumExplodedTracks, drumLanes);
+  };
+  const handleToggleDrumExplode = (sourceIndex: number) => {
+    updateWorkingTracks(explodedTracks, toggled(drumExplodedTracks, sourceIndex), drumLanes);
+  };
+  const handleDrumLanesChange = (lanes: DrumLane[]) => {
+    updateWorkingTracks(explodedTracks, drumExplodedTracks, lanes);
+  };
+  // Outputs using a map follow its edits; deleting a map turns mapping off for them
+  const updateDrumMapConfigs = (id: string, map: DrumMap | undefined) => {
+    const newConfigs = new Map(configs);
+    configs.forEach((config, outputId) => {
+      if (config.drumMap?.map.id !== id) return;
+      newConfigs.set(outputId, {
+        ...config,
+        drumMap: map && {
+          ...config.drumMap,
+          map
+        }
+      });
+    });
+    setConfigs(newConfigs);
+  };
+  const handleSaveDrumMap = (map: DrumMap) => {
+    setDrumMaps(prev => prev.some(m => m.id === map.id) ? prev.map(m => m.id === map.id ? map : m) : [...prev, map]);
+    updateDrumMapConfigs(map.id, map);
+  };
+  const handleDeleteDrumMap = (id: string) => {
+    setDrumMaps(prev => prev.filter(m => m.id !== id));
+    updateDrumMapConfigs(id, undefined);
+  };
+  const handleProfileChange = (next: DeviceProfile) => {
+    // Assignments move to the output at the same position on the new device
+    const newConfigs = new Map<string, OutputTrackConfig>();
+    let dropped = 0;
+    profile.outputs.forEach((output, i) => {
+      const config = configs.get(output.id);
+      if (!config) return;
+      const target = next.outputs[i];
+      if (target) {
+        newConfigs.set(target.id, {
+          ...config,
+          outputId: target.id,
+          outputChannel: target.midiChannel !== undefined ? target.midiChannel - 1 : config.outputChannel
+        });
+      } else {
+        dropped++;
+      }
+    });
+    if (dropped > 0) {
+      toast.warning(`${dropped} ${dropped === 1 ? 'output' : 'outputs'} unassigned`, {
+        description: `${next.name} only has ${next.outputs.length} outputs.`
+      });
+    }
+    setConfigs(newConfigs);
+    setProfile(next);
+    setSplitSettings(prev => ({
+      ...prev,
+      stepsPerBar: next.stepsPerBar,
+      maxStepsPerClip: next.maxStepsPerClip,
+      ppq: pickPpq(next, parsedMidi?.header.ppq ?? prev.ppq)
+    }));
+  };
+  const handleImportProfile = (imported: DeviceProfile) => {
+    setProfiles(prev => [...prev.filter(p => p.id !== imported.id), imported]);
+    handleProfileChange(imported);
+  };
   const handleFileSelect = async (file: File) => {
     setIsProcessing(true);
     setParsedMidi(null);
     setConfigs(new Map());
+    setExplodedTracks(new Set());
+    setDrumExplodedTracks(new Set());
     try {
       const parsed = await parseMIDIFile(file);
       setParsedMidi(parsed);
       setSplitSettings(prev => ({
         ...prev,
-        ppq: parsed.header.ppq
+        ppq: pickPpq(profile, parsed.header.ppq),
+        crop: null
       }));
       toast.success('MIDI file loaded', {
         description: `Found ${parsed.tracks.length} tracks, ${parsed.header.ppq} PPQ`
@@ -79,16 +238,25 @@ const Index = () => {
           <UploadPanel onFileSelect={handleFileSelect} isProcessing={isProcessing} />
 
           {/* Configuration Section - Only show when file is loaded */}
-          {parsedMidi && <>
-              <MidiPlayer isPlaying={isPlaying} position={position} duration={duration} isInitialized={isInitialized} isLoading={isLoading} loadingProgress={loadingProgress} onPlay={play} onPause={pause} onStop={stop} onSeek={seek} />
+          {parsedMidi && workingMidi && <>
+              <MidiPlayer isPlaying={isPlaying} position={position} duration={duration} isInitialized={isInitialized} isLoading={isLoading} loadingProgress={loadingProgress} onPlay={play} onPause={pause} onStop={stop} onSeek={seek} barTimes={barTimes} selection={cropSelection} onSelectBars={handleSelectBars} onClearSelection={() => setSplitSettings(prev => ({
+            ...prev,
+            crop: null
+          }))} />
+
+              <DeviceProfileSelector profiles={profiles} profile={profile} onProfileChange={handleProfileChange} onImportProfile={handleImportProfile} />
+
+              <TrackInspector tracks={workingMidi.tracks} outputs={profile.outputs} deviceNoteRange={profile.noteRange} deviceMaxPolyphony={profile.maxPolyphony} drumMaps={drumMaps} configs={configs} onConfigChange={setConfigs} trackStates={trackStates} onToggleMute={toggleMute} onToggleSolo={toggleSolo} explodedTracks={explodedTracks} onToggleExplode={handleToggleExplode} drumExplodedTracks={drumExplodedTracks} onToggleDrumExplode={handleToggleDrumExplode} />
+
+              {drumExplodedTracks.size > 0 && <DrumLaneEditor lanes={drumLanes} onLanesChange={handleDrumLanesChange} />}
 
-              <TrackInspector tracks={parsedMidi.tracks} configs={configs} onConfigChange={setConfigs} trackStates={trackStates} onToggleMute={toggleMute} onToggleSolo={toggleSolo} />
+              {workingMidi.tracks.some(track => track.isDrums) && <DrumMapEditor maps={drumMaps} onSaveMap={handleSaveDrumMap} onDeleteMap={handleDeleteDrumMap} />}
 
-              <SplitSettings settings={splitSettings} onSettingsChange={setSplitSettings} />
+              <SplitSettings settings={splitSettings} onSettingsChange={setSplitSettings} profile={profile} sourcePpq={parsedMidi.header.ppq} meterMap={parsedMidi.meterMap} />
 
-              <SummaryPanel parsedMidi={parsedMidi} configs={configs} settings={splitSettings} />
+              <SummaryPanel parsedMidi={workingMidi} profile={profile} configs={configs} settings={splitSettings} exportSettings={exportSettings} />
 
-              <ExportPanel parsedMidi={parsedMidi} configs={configs} settings={splitSettings} />
+              <ExportPanel parsedMidi={workingMidi} profile={profile} configs={configs} settings={splitSettings} exportSettings={exportSettings} onExportSettingsChange={setExportSettings} />
             </>}
         </div>
 